@@ -0,0 +1,34 @@
+import * as assert from 'assert'
+import * as Mat from '../src/Mat'
+import { degrees } from '../src/Shape'
+import * as _ from '../src/Camera'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const project = (m: Mat.Mat, p: ReadonlyArray<number>) => {
+  const [v] = Mat.mul(m)([[p[0], p[1], p[2], 1]])
+  return v.map(n => Math.round((n / v[3]) * 1e6) / 1e6)
+}
+
+describe('Camera', () => {
+  const c = _.camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 1, 1, 100)
+
+  it('viewProjection', () => {
+    const m = _.viewProjection(c)
+    deepStrictEqual(project(m, [0, 0, 0]).slice(0, 2), [0, 0])
+    // points at the near and far planes map to the ends of the depth range
+    deepStrictEqual(project(m, [0, 0, 9])[2], -1)
+    deepStrictEqual(project(m, [0, 0, -90])[2], 1)
+    // farther points appear closer to the center
+    deepStrictEqual(project(m, [5, 5, 0]).slice(0, 2), [0.5, 0.5])
+    deepStrictEqual(project(m, [5, 5, -10]).slice(0, 2), [0.25, 0.25])
+  })
+  it('viewport', () => {
+    const m = _.viewport({ width: 200, height: 100 })
+    deepStrictEqual(project(m, [0, 0, 0]), [100, 50, 0, 1])
+    deepStrictEqual(project(m, [-1, 1, 0]), [0, 0, 0, 1])
+    deepStrictEqual(project(m, [1, -1, 0]), [200, 100, 0, 1])
+  })
+})
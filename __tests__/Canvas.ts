@@ -0,0 +1,74 @@
+import * as assert from 'assert'
+import { pipe } from 'fp-ts/function'
+import * as RIO from 'fp-ts/ReaderIO'
+import * as _ from '../src/Canvas'
+import { calls, painted, recorder } from '../src/Recorder'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+describe('Canvas', () => {
+  it('getDimensions', () => {
+    const { context } = recorder({ width: 100, height: 50 })
+    deepStrictEqual(_.getDimensions(context.canvas)(), { width: 100, height: 50 })
+  })
+  it('setters', () => {
+    const { context, events } = recorder()
+    pipe(
+      _.setLineWidth(2),
+      RIO.chain(() => _.setLineCap('round')),
+      RIO.chain(() => _.setFont('12px serif'))
+    )(context)()
+    deepStrictEqual(events(), [
+      { _tag: 'PropertySet', name: 'lineWidth', value: 2 },
+      { _tag: 'PropertySet', name: 'lineCap', value: 'round' },
+      { _tag: 'PropertySet', name: 'font', value: '12px serif' },
+    ])
+    deepStrictEqual(_.getFont(context)(), '12px serif')
+  })
+  it('getLineDash', () => {
+    const { context } = recorder()
+    _.setLineDash([4, 2])(context)()
+    deepStrictEqual(_.getLineDash(context)(), [4, 2])
+  })
+  it('fillPath', () => {
+    const { context, events } = recorder()
+    _.fillPath(
+      pipe(
+        _.moveTo([0, 0]),
+        RIO.chain(() => _.lineTo([1, 1]))
+      )
+    )(context)()
+    deepStrictEqual(
+      events().map(e => (e._tag === 'MethodCall' ? e.name : e._tag)),
+      ['beginPath', 'moveTo', 'lineTo', 'fill']
+    )
+  })
+  it('strokePath', () => {
+    const { context, events } = recorder()
+    _.strokePath(_.moveTo([1, 2]))(context)()
+    deepStrictEqual(
+      painted(events()).map(p => [p.operation, p.subPaths]),
+      [['stroke', [[[1, 2]]]]]
+    )
+  })
+  it('withContext', () => {
+    const { context, events } = recorder()
+    _.withContext(_.setFillStyle('red'))(context)()
+    deepStrictEqual(calls('save')(events()).length, 1)
+    deepStrictEqual(calls('restore')(events()).length, 1)
+    deepStrictEqual(context.fillStyle, '#000000')
+  })
+  it('transforms', () => {
+    const { context, events } = recorder()
+    pipe(
+      _.translate(1, 2),
+      RIO.chain(() => _.scale(3, 4)),
+      RIO.chain(() => _.rotate(Math.PI))
+    )(context)()
+    deepStrictEqual(calls('translate')(events()), [[1, 2]])
+    deepStrictEqual(calls('scale')(events()), [[3, 4]])
+    deepStrictEqual(calls('rotate')(events()), [[Math.PI]])
+  })
+})
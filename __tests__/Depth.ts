@@ -0,0 +1,42 @@
+import * as assert from 'assert'
+import { Vec } from '../src/Vec'
+import * as _ from '../src/Depth'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const square = (z: number): ReadonlyArray<Vec> => [
+  [0, 0, z],
+  [1, 0, z],
+  [1, 1, z],
+  [0, 1, z],
+]
+
+describe('Depth', () => {
+  it('backToFront', () => {
+    const sort = _.backToFront((face: ReadonlyArray<Vec>) => face)
+    deepStrictEqual(sort([square(1), square(3), square(2)]), [square(3), square(2), square(1)])
+    deepStrictEqual(sort([square(1), []]), [square(1)])
+  })
+  it('backToFront reorders overlapping depth ranges', () => {
+    // a slanted face whose far edge is behind a small face that it covers near its near edge
+    const slanted: ReadonlyArray<Vec> = [
+      [0, 0, 0],
+      [10, 0, 10],
+      [10, 10, 10],
+      [0, 10, 0],
+    ]
+    const small = square(5)
+    const sort = _.backToFront((face: ReadonlyArray<Vec>) => face)
+    deepStrictEqual(sort([small, slanted]), [small, slanted])
+    deepStrictEqual(sort([slanted, small]), [small, slanted])
+    // faces that do not overlap on screen keep the order of the initial sort
+    const aside: ReadonlyArray<Vec> = [
+      [20, 0, 5],
+      [21, 0, 5],
+      [21, 1, 5],
+    ]
+    deepStrictEqual(sort([aside, slanted]), [slanted, aside])
+  })
+})
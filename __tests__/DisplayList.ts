@@ -0,0 +1,235 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import * as C from '../src/Canvas'
+import { hex } from '../src/Color'
+import * as D from '../src/Drawing'
+import { calls, painted, recorder } from '../src/Recorder'
+import { closed, point } from '../src/Shape'
+import * as _ from '../src/DisplayList'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const triangle = closed(RA.Foldable)([point(10, 10, 0), point(20, 10, 0), point(10, 20, 0)])
+
+const subPaths: ReadonlyArray<_.SubPath> = [
+  [
+    [10, 10],
+    [20, 10],
+    [10, 20],
+    [10, 10],
+  ],
+]
+
+describe('DisplayList', () => {
+  const dimensions = { width: 100, height: 50 }
+
+  it('compile', () => {
+    deepStrictEqual(
+      D.compile(
+        D.clipped(
+          triangle,
+          D.many([D.fill(triangle, D.fillStyle(hex('#f00'))), D.outline(triangle, D.lineWidth(2))])
+        ),
+        dimensions
+      ),
+      [
+        _.pushClip(subPaths),
+        _.fillPath(subPaths, { fillStyle: O.some('#f00') }),
+        _.strokePath(subPaths, {
+          strokeStyle: O.none,
+          lineWidth: O.some(2),
+          lineCap: O.none,
+          lineJoin: O.none,
+          lineDash: O.none,
+          lineDashOffset: O.none,
+          miterLimit: O.none,
+        }),
+        _.popClip,
+      ]
+    )
+  })
+  it('text', () => {
+    deepStrictEqual(
+      D.compile(D.text([1, 2, 0], 'label', D.font('serif', 10), D.textFill(hex('#f00'))), dimensions),
+      [
+        _.drawText([1, 2], 'label', {
+          font: '10px serif',
+          fillStyle: O.some('#f00'),
+          strokeStyle: O.none,
+          textAlign: O.none,
+          textBaseline: O.none,
+        }),
+      ]
+    )
+  })
+  it('paint', () => {
+    const stops = [D.colorStop(0, hex('#f00')), D.colorStop(1, hex('#00f'))]
+    deepStrictEqual(
+      D.compile(
+        D.translate(
+          5,
+          0,
+          0,
+          D.fill(
+            triangle,
+            D.monoidFillStyle.concat(
+              D.fillPaint(D.linearGradient([10, 10, 0], [20, 10, 0], stops)),
+              D.fillStyle(hex('#0f0'))
+            )
+          )
+        ),
+        dimensions
+      ),
+      [
+        _.fillPath(
+          subPaths.map(subPath => subPath.map(([x, y]) => [x + 5, y] as const)),
+          {
+            fillStyle: O.some({
+              _tag: 'LinearGradient',
+              start: [15, 10],
+              end: [25, 10],
+              stops: [
+                [0, '#f00'],
+                [1, '#00f'],
+              ],
+            }),
+          }
+        ),
+      ]
+    )
+    deepStrictEqual(
+      D.compile(
+        D.outline(triangle, D.outlinePaint(D.radialGradient([10, 10, 0], 0, [10, 10, 0], 10, stops))),
+        dimensions
+      ).map(command => command._tag === 'StrokePath' && command.style.strokeStyle),
+      [
+        O.some<_.Style>({
+          _tag: 'RadialGradient',
+          start: [10, 10],
+          startRadius: 0,
+          end: [10, 10],
+          endRadius: 10,
+          stops: [
+            [0, '#f00'],
+            [1, '#00f'],
+          ],
+        }),
+      ]
+    )
+  })
+  it('effects', () => {
+    deepStrictEqual(
+      D.compile(
+        D.withAlpha(0.5, D.withCompositeOperation('screen', D.fill(triangle, D.monoidFillStyle.empty))),
+        dimensions
+      ),
+      [
+        _.pushEffect({ _tag: 'Alpha', alpha: 0.5 }),
+        _.pushEffect({ _tag: 'CompositeOperation', operation: 'screen' }),
+        _.fillPath(subPaths, { fillStyle: O.none }),
+        _.popEffect,
+        _.popEffect,
+      ]
+    )
+  })
+  it('serializable', () => {
+    const list = D.compile(D.fill(triangle, D.fillStyle(hex('#f00'))), dimensions)
+    deepStrictEqual(JSON.parse(JSON.stringify(list)), list)
+  })
+  it('replay', () => {
+    const { context, events } = recorder(dimensions)
+    _.replay([
+      _.pushClip(subPaths),
+      _.strokePath(subPaths, {
+        strokeStyle: O.some('#00f'),
+        lineWidth: O.none,
+        lineCap: O.some('round'),
+        lineJoin: O.none,
+        lineDash: O.some([4, 2]),
+        lineDashOffset: O.some(1),
+        miterLimit: O.none,
+      }),
+      _.popClip,
+    ])(context)()
+    deepStrictEqual(
+      painted(events()).map(p => [
+        p.operation,
+        p.subPaths,
+        p.properties.strokeStyle,
+        p.properties.lineCap,
+        p.properties.lineDash,
+        p.properties.lineDashOffset,
+      ]),
+      [
+        ['clip', subPaths, '#000000', 'butt', [], 0],
+        ['stroke', subPaths, '#00f', 'round', [4, 2], 1],
+      ]
+    )
+    deepStrictEqual(calls('save')(events()).length, calls('restore')(events()).length)
+  })
+  it('replay unloaded pattern', () => {
+    const { context, events } = recorder(dimensions)
+    context.fillStyle = '#f00'
+    context.strokeStyle = '#00f'
+    // `createPattern` gives `null` while the image is loading
+    const loading = new Proxy(context, {
+      get: (target, name) => (name === 'createPattern' ? () => null : Reflect.get(target, name)),
+    })
+    const pattern: _.Style = { _tag: 'Pattern', image: {} as C.ImageSource, repetition: 'repeat' }
+    _.replay([
+      _.fillPath(subPaths, { fillStyle: O.some(pattern) }),
+      _.strokePath(subPaths, {
+        strokeStyle: O.some(pattern),
+        lineWidth: O.none,
+        lineCap: O.none,
+        lineJoin: O.none,
+        lineDash: O.none,
+        lineDashOffset: O.none,
+        miterLimit: O.none,
+      }),
+    ])(loading)()
+    deepStrictEqual(
+      painted(events()).map(p => [p.operation, p.properties.fillStyle, p.properties.strokeStyle]),
+      [
+        ['fill', '#f00', '#00f'],
+        ['stroke', '#f00', '#00f'],
+      ]
+    )
+  })
+  it('replay gradient', () => {
+    const { context, events } = recorder(dimensions)
+    _.replay([
+      _.fillPath(subPaths, {
+        fillStyle: O.some({
+          _tag: 'RadialGradient',
+          start: [10, 10],
+          startRadius: 0,
+          end: [20, 10],
+          endRadius: 5,
+          stops: [
+            [0, '#f00'],
+            [1, '#00f'],
+          ],
+        }),
+      }),
+    ])(context)()
+    deepStrictEqual(
+      // the recorded gradient without its methods
+      JSON.parse(JSON.stringify(painted(events()).map(p => p.properties.fillStyle))),
+      [
+        {
+          _tag: 'RecordedGradient',
+          kind: 'radial',
+          args: [10, 10, 0, 20, 10, 5],
+          stops: [
+            [0, '#f00'],
+            [1, '#00f'],
+          ],
+        },
+      ]
+    )
+  })
+})
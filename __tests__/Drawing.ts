@@ -0,0 +1,474 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/Option'
+import { pipe } from 'fp-ts/function'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { camera } from '../src/Camera'
+import { hex } from '../src/Color'
+import * as L from '../src/Light'
+import * as M from '../src/Mat'
+import * as Q from '../src/Quat'
+import { SubPath, calls, painted, recorder } from '../src/Recorder'
+import { moveTo, quadraticCurveTo } from '../src/Path3D'
+import { closed, degrees, mesh, path, point, spline } from '../src/Shape'
+import * as _ from '../src/Drawing'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const render = (drawing: _.Drawing, c?: Parameters<typeof _.render>[1]) => {
+  const { context, events } = recorder({ width: 100, height: 50 })
+  _.render(drawing, c)(context)()
+  return painted(events())
+}
+
+// counter-clockwise on screen, so it faces the viewer
+const front = closed(RA.Foldable)([point(10, 10, 0), point(10, 20, 0), point(20, 10, 0)])
+
+const back = closed(RA.Foldable)([point(10, 10, 0), point(20, 10, 0), point(10, 20, 0)])
+
+const square = (z: number) =>
+  closed(RA.Foldable)([point(0, 0, z), point(0, 10, z), point(10, 10, z), point(10, 0, z)])
+
+describe('Drawing', () => {
+  it('fill', () => {
+    const [fill] = render(_.fill(front, _.fillStyle(hex('#f00'))))
+    deepStrictEqual(fill.operation, 'fill')
+    deepStrictEqual(fill.subPaths, [
+      [
+        [10, 10],
+        [10, 20],
+        [20, 10],
+        [10, 10],
+      ],
+    ])
+    deepStrictEqual(fill.properties.fillStyle, '#f00')
+  })
+  it('outline', () => {
+    const line = path(RA.Foldable)([point(0, 0, 0), point(5, 5, 0)])
+    const [stroke] = render(
+      _.translate(
+        1,
+        2,
+        0,
+        _.outline(line, _.monoidOutlineStyle.concat(_.outlineColor(hex('#00f')), _.lineWidth(3)))
+      )
+    )
+    deepStrictEqual(stroke.operation, 'stroke')
+    deepStrictEqual(stroke.subPaths, [
+      [
+        [1, 2],
+        [6, 7],
+      ],
+    ])
+    deepStrictEqual(stroke.properties.strokeStyle, '#00f')
+    deepStrictEqual(stroke.properties.lineWidth, 3)
+  })
+  it('clipped', () => {
+    deepStrictEqual(
+      render(_.clipped(front, _.fill(square(0), _.monoidFillStyle.empty))).map(p => p.operation),
+      ['clip', 'fill']
+    )
+  })
+  it('depthSorted', () => {
+    const drawing = _.many([
+      _.fill(square(0), _.fillStyle(hex('#f00'))),
+      _.fill(square(5), _.fillStyle(hex('#00f'))),
+    ])
+    deepStrictEqual(
+      render(drawing).map(p => p.properties.fillStyle),
+      ['#f00', '#00f']
+    )
+    deepStrictEqual(
+      render(_.depthSorted(drawing)).map(p => p.properties.fillStyle),
+      ['#00f', '#f00']
+    )
+  })
+  it('culled', () => {
+    const drawing = _.many([_.fill(front, _.fillStyle(hex('#f00'))), _.fill(back, _.fillStyle(hex('#00f')))])
+    deepStrictEqual(
+      render(drawing).map(p => p.subPaths.length),
+      [1, 1]
+    )
+    // the back face is not drawn at all
+    const { context, events } = recorder({ width: 100, height: 50 })
+    _.render(_.culled(drawing))(context)()
+    deepStrictEqual(
+      painted(events()).map(p => p.properties.fillStyle),
+      ['#f00']
+    )
+    deepStrictEqual(calls('beginPath')(events()).length, 1)
+    deepStrictEqual(render(_.culled(_.outline(back, _.outlineColor(hex('#00f'))))), [])
+  })
+  it('culled subtree', () => {
+    const drawing = _.culled(
+      _.many([
+        _.fill(back, _.fillStyle(hex('#00f'))),
+        _.translate(1, 0, 0, _.outline(back, _.outlineColor(hex('#0f0')))),
+      ])
+    )
+    const { context, events } = recorder({ width: 100, height: 50 })
+    _.render(drawing)(context)()
+    // nothing faces the viewer, so nothing reaches the context
+    deepStrictEqual(
+      ['beginPath', 'fill', 'stroke'].map(name => calls(name)(events()).length),
+      [0, 0, 0]
+    )
+    // culling the front face alone keeps it
+    deepStrictEqual(render(_.culled(_.fill(front, _.fillStyle(hex('#f00'))))).length, 1)
+  })
+  it('mesh with a face out of range', () => {
+    const shape = mesh(
+      [point(10, 10, 0), point(10, 20, 0), point(20, 10, 0)],
+      [
+        [0, 1, 2],
+        [0, 1, 5],
+      ]
+    )
+    deepStrictEqual(render(_.fill(shape, _.fillStyle(hex('#f00'))))[0].subPaths, [
+      [
+        [10, 10],
+        [10, 20],
+        [20, 10],
+        [10, 10],
+      ],
+    ])
+  })
+  it('lit', () => {
+    const style = _.monoidFillStyle.concat(_.fillStyle(hex('#ff0000')), _.fillMaterial(L.material(1, 0, 1)))
+    deepStrictEqual(
+      render(_.lit([L.ambient(0.5)], _.fill(front, style))).map(p => p.properties.fillStyle),
+      ['#800000']
+    )
+  })
+  it('dashes', () => {
+    const line = path(RA.Foldable)([point(0, 0, 0), point(5, 5, 0)])
+    const style = _.monoidOutlineStyle.concat(
+      _.monoidOutlineStyle.concat(_.lineDash([4, 2]), _.lineDashOffset(1)),
+      _.monoidOutlineStyle.concat(_.miterLimit(4), _.lineDash([1, 1]))
+    )
+    const [stroke] = render(_.outline(line, style))
+    deepStrictEqual(
+      [stroke.properties.lineDash, stroke.properties.lineDashOffset, stroke.properties.miterLimit],
+      [[4, 2], 1, 4]
+    )
+  })
+  it('depth scaled lines', () => {
+    const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+    const line = path(RA.Foldable)([point(-1, 0, 0), point(1, 0, 0)])
+    const lengths = (style: _.OutlineStyle, z: number) => {
+      const [stroke] = render(_.translate(0, 0, z, _.scale(2, 2, 2, _.outline(line, style))), c)
+      return [stroke.properties.lineWidth, stroke.properties.lineDash, stroke.properties.lineDashOffset]
+    }
+    const dashed = _.monoidOutlineStyle.concat(_.lineDash([1, 0.5]), _.lineDashOffset(0.5))
+    deepStrictEqual(lengths(dashed, 0), [1, [1, 0.5], 0.5])
+    // one unit at a distance of 10 spans 1 / 10 of half the height of the screen, scaled twice
+    deepStrictEqual(lengths(_.monoidOutlineStyle.concat(dashed, _.lineSizing('depthScaled')), 0), [
+      5,
+      [5, 2.5],
+      2.5,
+    ])
+    deepStrictEqual(lengths(_.monoidOutlineStyle.concat(dashed, _.lineSizing('depthScaled')), 2.5), [
+      10,
+      [10, 5],
+      5,
+    ])
+  })
+  it('camera', () => {
+    const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+    // the part of the line behind the near plane is clipped away
+    const line = path(RA.Foldable)([point(-1, 0, 0), point(-1, 0, 20)])
+    const [stroke] = render(_.outline(line, _.monoidOutlineStyle.empty), c)
+    deepStrictEqual(
+      stroke.subPaths.map(subPath =>
+        subPath.map(([x, y]) => [Math.round(x * 100) / 100, Math.round(y * 100) / 100])
+      ),
+      [
+        [
+          [47.5, 25],
+          [25, 25],
+        ],
+      ]
+    )
+  })
+  it('camera and rotate', () => {
+    const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+    const line = _.outline(path(RA.Foldable)([point(1, 0, 5), point(1, 0, -5)]), _.monoidOutlineStyle.empty)
+    const expected: ReadonlyArray<SubPath> = [
+      [
+        [50, 20],
+        [50, 23.333333333333332],
+      ],
+    ]
+    // the depth of the points survives the rotation, the nearer end is farther from the center
+    deepStrictEqual(render(_.rotate(degrees(0), degrees(0), degrees(90), line), c)[0].subPaths, expected)
+    deepStrictEqual(render(_.rotateAxis([0, 0, 1], degrees(90), line), c)[0].subPaths, expected)
+  })
+  it('spline', () => {
+    const arc = spline(quadraticCurveTo([1, 1, 0], [2, 0, 0])(moveTo([0, 0, 0])([])))
+    const points = (drawing: _.Drawing, c?: Parameters<typeof _.render>[1]) =>
+      render(drawing, c)[0].subPaths[0].length
+    const small = points(_.outline(arc, _.monoidOutlineStyle.empty))
+    // curves are flattened after the transformation, so larger curves get more points
+    deepStrictEqual(points(_.scale(10, 10, 10, _.outline(arc, _.monoidOutlineStyle.empty))) > small, true)
+    const far = camera([1, 0, 100], [1, 0, 0], [0, 1, 0], degrees(90), 2, 1, 1000)
+    const near = camera([1, 0, 2], [1, 0, 0], [0, 1, 0], degrees(90), 2, 1, 1000)
+    deepStrictEqual(
+      points(_.outline(arc, _.monoidOutlineStyle.empty), near) >
+        points(_.outline(arc, _.monoidOutlineStyle.empty), far),
+      true
+    )
+  })
+  it('text', () => {
+    const texts = (drawing: _.Drawing, c?: Parameters<typeof _.render>[1]) => {
+      const { context, events } = recorder({ width: 100, height: 50 })
+      _.render(drawing, c)(context)()
+      return events()
+    }
+    const style = _.monoidTextStyle.concat(_.textFill(hex('#f00')), _.textAlign('center'))
+    const events = texts(_.translate(1, 2, 0, _.text([10, 20, 0], 'label', _.font('serif', 12), style)))
+    deepStrictEqual(calls('fillText')(events), [['label', 11, 22]])
+    deepStrictEqual(calls('strokeText')(events), [])
+    deepStrictEqual(
+      events
+        .filter(e => e._tag === 'PropertySet')
+        .map(e => (e._tag === 'PropertySet' ? [e.name, e.value] : [])),
+      [
+        ['font', '12px serif'],
+        ['textAlign', 'center'],
+        ['fillStyle', '#f00'],
+      ]
+    )
+    deepStrictEqual(
+      calls('strokeText')(texts(_.text([0, 0, 0], 'label', _.font('serif', 12), _.textOutline(hex('#00f'))))),
+      [['label', 0, 0]]
+    )
+    deepStrictEqual(
+      calls('fillText')(texts(_.text([0, 0, 0], 'label', _.font('serif', 12), _.textOutline(hex('#00f'))))),
+      []
+    )
+    // @ts-expect-error a text is anchored at a point in three dimensions
+    _.text([0, 0, 0, 1], 'label', _.font('serif', 12), style)
+  })
+  it('text sizing', () => {
+    const fonts = (sizing: _.TextSizing, z: number) => {
+      const { context, events } = recorder({ width: 100, height: 50 })
+      const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+      _.render(_.text([0, 0, z], 'label', _.font('serif', 1), _.textSizing(sizing)), c)(context)()
+      return events()
+        .filter(e => e._tag === 'PropertySet' && e.name === 'font')
+        .map(e => (e._tag === 'PropertySet' ? e.value : undefined))
+    }
+    deepStrictEqual(fonts('billboard', 0), ['1px serif'])
+    deepStrictEqual(fonts('billboard', 5), ['1px serif'])
+    // one unit at a distance of 10 spans 1 / 10 of half the height of the screen
+    deepStrictEqual(fonts('depthScaled', 0), ['2.5px serif'])
+    deepStrictEqual(fonts('depthScaled', 5), ['5px serif'])
+    // texts behind the near plane are skipped
+    deepStrictEqual(fonts('billboard', 20), [])
+  })
+  it('paint', () => {
+    const stops = [_.colorStop(0, hex('#f00')), _.colorStop(1, hex('#00f'))]
+    const gradient = _.radialGradient([0, 0, 0], 0, [0, 0, 0], 1, stops)
+    // the first paint wins, a color keeps being used when there is none
+    deepStrictEqual(
+      _.monoidFillStyle.concat(
+        _.fillPaint(gradient),
+        _.fillPaint(_.linearGradient([0, 0, 0], [1, 0, 0], stops))
+      ).paint,
+      _.fillPaint(gradient).paint
+    )
+    deepStrictEqual(
+      _.monoidOutlineStyle.concat(_.outlineColor(hex('#f00')), _.outlinePaint(gradient)).paint,
+      _.outlinePaint(gradient).paint
+    )
+    const radius = (z: number) => {
+      const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+      const [command] = _.compile(
+        _.scale(2, 2, 2, _.translate(0, 0, z, _.fill(square(0), _.fillPaint(gradient)))),
+        { width: 100, height: 50 },
+        c
+      )
+      return command._tag === 'FillPath' && command.style.fillStyle._tag === 'Some'
+        ? typeof command.style.fillStyle.value !== 'string' &&
+          command.style.fillStyle.value._tag === 'RadialGradient'
+          ? [command.style.fillStyle.value.start, command.style.fillStyle.value.endRadius]
+          : []
+        : []
+    }
+    // the radius is scaled with the shape and projected at the center of the gradient
+    deepStrictEqual(radius(0), [[50, 25], 5])
+    deepStrictEqual(radius(5), [[50, 25], 10])
+  })
+  it('effects', () => {
+    const properties = (drawing: _.Drawing) =>
+      render(drawing).map(p => [
+        p.properties.globalAlpha,
+        p.properties.globalCompositeOperation,
+        p.properties.shadowColor,
+        p.properties.shadowBlur,
+        p.properties.shadowOffsetX,
+      ])
+    const red = _.fill(front, _.fillStyle(hex('#f00')))
+    deepStrictEqual(
+      properties(
+        _.withAlpha(
+          0.5,
+          _.many([
+            _.withAlpha(0.5, _.withCompositeOperation('multiply', red)),
+            _.withShadow(_.shadow(hex('#000'), 4, 2, 2), red),
+          ])
+        )
+      ),
+      [
+        [0.25, 'multiply', 'rgba(0, 0, 0, 0)', 0, 0],
+        [0.5, 'source-over', '#000', 4, 2],
+      ]
+    )
+    // the primitives of a depth sorted drawing keep the effects of their ancestors
+    deepStrictEqual(properties(_.depthSorted(_.withAlpha(0.5, _.many([_.withAlpha(0.5, red), red])))), [
+      [0.25, 'source-over', 'rgba(0, 0, 0, 0)', 0, 0],
+      [0.5, 'source-over', 'rgba(0, 0, 0, 0)', 0, 0],
+    ])
+  })
+  it('rotateQuat', () => {
+    const line = path(RA.Foldable)([point(0, 0, 0), point(10, 0, 0)])
+    const [stroke] = render(
+      _.rotateAxis(
+        [0, 0, 1],
+        degrees(90),
+        _.translate(20, 20, 0, _.outline(line, _.monoidOutlineStyle.empty))
+      )
+    )
+    deepStrictEqual(
+      stroke.subPaths.map(subPath => subPath.map(([x, y]) => [Math.round(x), Math.round(y)])),
+      [
+        [
+          [20, 20],
+          [20, 30],
+        ],
+      ]
+    )
+    // a quaternion that is not a unit one only rotates, it is not scaled
+    const [scaled] = render(
+      _.rotateQuat([0, 0, 5, 5], _.translate(20, 20, 0, _.outline(line, _.monoidOutlineStyle.empty)))
+    )
+    deepStrictEqual(
+      scaled.subPaths.map(subPath => subPath.map(([x, y]) => [Math.round(x), Math.round(y)])),
+      [
+        [
+          [20, 20],
+          [20, 30],
+        ],
+      ]
+    )
+    const outline = _.outline(line, _.monoidOutlineStyle.empty)
+    deepStrictEqual(_.rotateQuat([0, 0, 0, 0], outline), _.rotateQuat(Q.identity, outline))
+    // @ts-expect-error the axis is a direction in three dimensions
+    _.rotateAxis([0, 0, 1, 0], degrees(90), outline)
+  })
+  it('transform', () => {
+    const fill = _.fill(front, _.fillStyle(hex('#f00')))
+    deepStrictEqual(render(_.transform(M.translate([1, 2, 0]), fill)), render(_.translate(1, 2, 0, fill)))
+    deepStrictEqual(
+      render(_.scaleAbout([10, 10, 0], 2, 2, 1, fill)).map(p => p.subPaths),
+      [
+        [
+          [
+            [10, 10],
+            [10, 30],
+            [30, 10],
+            [10, 10],
+          ],
+        ],
+      ]
+    )
+    deepStrictEqual(
+      render(_.rotateAbout([10, 10, 0], Q.fromAxisAngle([0, 0, 1], degrees(90)), fill)).map(p =>
+        p.subPaths.map(subPath => subPath.map(([x, y]) => [Math.round(x), Math.round(y)]))
+      ),
+      [
+        [
+          [
+            [10, 10],
+            [0, 10],
+            [10, 20],
+            [10, 10],
+          ],
+        ],
+      ]
+    )
+  })
+  it('mirror', () => {
+    const drawing = _.mirror(
+      [15, 0, 0],
+      [1, 0, 0],
+      _.many([_.fill(front, _.fillStyle(hex('#f00'))), _.fill(back, _.fillStyle(hex('#00f')))])
+    )
+    deepStrictEqual(render(drawing)[0].subPaths, [
+      [
+        [20, 10],
+        [20, 20],
+        [10, 10],
+        [20, 10],
+      ],
+    ])
+    // the faces keep facing the same side
+    deepStrictEqual(
+      render(_.culled(drawing)).map(p => p.properties.fillStyle),
+      ['#f00']
+    )
+  })
+  it('pick', () => {
+    const dimensions = { width: 100, height: 50 }
+    const near = _.fill(square(1), _.fillStyle(hex('#f00')))
+    const far = _.fill(square(2), _.fillStyle(hex('#00f')))
+    const drawing = _.many([near, far])
+    deepStrictEqual<O.Option<{ drawing: _.Drawing; path: ReadonlyArray<_.Drawing>; depth: number }>>(
+      _.pick(5, 5, drawing, dimensions),
+      O.some({ drawing: far, path: [drawing, far], depth: 2 })
+    )
+    deepStrictEqual(_.pick(15, 5, drawing, dimensions), O.none)
+    // the topmost is the last painted, the nearest when depth sorted
+    deepStrictEqual<ReadonlyArray<_.Drawing>>(
+      _.pickAll(5, 5, _.depthSorted(drawing), dimensions).map(h => h.drawing),
+      [near, far]
+    )
+    // outside of the clipping region
+    const clipped = _.clipped(
+      closed(RA.Foldable)([point(0, 0, 0), point(0, 4, 0), point(4, 4, 0), point(4, 0, 0)]),
+      drawing
+    )
+    deepStrictEqual<O.Option<_.Drawing>>(
+      pipe(
+        _.pick(2, 2, clipped, dimensions),
+        O.map(h => h.drawing)
+      ),
+      O.some(far)
+    )
+    deepStrictEqual(_.pick(5, 5, clipped, dimensions), O.none)
+    // culled back faces are not hit
+    deepStrictEqual(_.pick(12, 12, _.culled(_.fill(back, _.fillStyle(hex('#00f')))), dimensions), O.none)
+  })
+  it('pick outline', () => {
+    const dimensions = { width: 100, height: 50 }
+    const line = path(RA.Foldable)([point(0, 10, 0), point(20, 10, 4)])
+    const outline = _.outline(line, _.lineWidth(4))
+    const drawing = _.translate(10, 0, 0, outline)
+    deepStrictEqual<O.Option<number>>(
+      pipe(
+        _.pick(20, 11.5, drawing, dimensions),
+        O.map(h => h.depth)
+      ),
+      O.some(2)
+    )
+    deepStrictEqual(_.pick(20, 12.5, drawing, dimensions), O.none)
+    deepStrictEqual<O.Option<ReadonlyArray<_.Drawing>>>(
+      pipe(
+        _.pick(20, 10, drawing, dimensions),
+        O.map(h => h.path)
+      ),
+      O.some([drawing, outline])
+    )
+  })
+})
@@ -0,0 +1,73 @@
+import * as assert from 'assert'
+import * as _ from '../src/Frustum'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+describe('Frustum', () => {
+  const planes = [_.near, _.far]
+
+  it('clipPolygon', () => {
+    deepStrictEqual(
+      _.clipPolygon(planes)([
+        [0, 0, 0, 1],
+        [1, 0, 0, 1],
+        [0, 1, 0, 1],
+      ]),
+      [
+        [0, 0, 0, 1],
+        [1, 0, 0, 1],
+        [0, 1, 0, 1],
+      ]
+    )
+    deepStrictEqual(
+      _.clipPolygon(planes)([
+        [0, 0, 2, 1],
+        [1, 0, 2, 1],
+        [0, 1, 2, 1],
+      ]),
+      []
+    )
+    // the corner behind the near plane is cut off
+    deepStrictEqual(
+      _.clipPolygon(planes)([
+        [0, 0, -3, 1],
+        [2, 0, 1, 1],
+        [0, 2, 1, 1],
+      ]),
+      [
+        [1, 0, -1, 1],
+        [2, 0, 1, 1],
+        [0, 2, 1, 1],
+        [0, 1, -1, 1],
+      ]
+    )
+  })
+  it('clipPolyline', () => {
+    deepStrictEqual(_.clipPolyline(planes)([]), [])
+    deepStrictEqual(_.clipPolyline(planes)([[0, 0, 0, 1]]), [[[0, 0, 0, 1]]])
+    deepStrictEqual(_.clipPolyline(planes)([[0, 0, 2, 1]]), [])
+    // the part beyond the far plane is dropped and the polyline is split in two
+    deepStrictEqual(
+      _.clipPolyline(planes)([
+        [0, 0, 0, 1],
+        [2, 0, 0, 1],
+        [2, 0, 3, 1],
+        [4, 0, 3, 1],
+        [4, 0, 0, 1],
+      ]),
+      [
+        [
+          [0, 0, 0, 1],
+          [2, 0, 0, 1],
+          [2, 0, 1, 1],
+        ],
+        [
+          [4, 0, 1, 1],
+          [4, 0, 0, 1],
+        ],
+      ]
+    )
+  })
+})
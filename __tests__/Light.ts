@@ -0,0 +1,62 @@
+import * as assert from 'assert'
+import { hex, hsla } from '../src/Color'
+import * as Mat from '../src/Mat'
+import { Vec } from '../src/Vec'
+import * as _ from '../src/Light'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const round = (i: _.Intensity): _.Intensity => ({
+  diffuse: Math.round(i.diffuse * 1e6) / 1e6,
+  specular: Math.round(i.specular * 1e6) / 1e6,
+})
+
+describe('Light', () => {
+  const material = _.material(0.5, 0.25, 1)
+  const eye: Vec = [0, 0, 10, 1]
+
+  it('transform', () => {
+    deepStrictEqual(_.transform(Mat.translate([1, 2, 3]))(_.point([0, 0, 0], 1)), _.point([1, 2, 3], 1))
+    deepStrictEqual(
+      _.transform(Mat.translate([1, 2, 3]))(_.directional([0, 0, 1], 1)),
+      _.directional([0, 0, 1], 1)
+    )
+    // @ts-expect-error the lights are placed in three dimensions
+    _.point([0, 0, 0, 1], 1)
+    deepStrictEqual(_.transform(Mat.translate([1, 2, 3]))(_.ambient(1)), _.ambient(1))
+  })
+  it('illuminate', () => {
+    const illuminate = (lights: ReadonlyArray<_.Light>) =>
+      round(_.illuminate(lights, material, eye)([0, 0, 0], [0, 0, 1]))
+    deepStrictEqual(illuminate([]), { diffuse: 0, specular: 0 })
+    deepStrictEqual(illuminate([_.ambient(0.2)]), { diffuse: 0.2, specular: 0 })
+    // a light shining straight at the face, in the direction of the viewer
+    deepStrictEqual(illuminate([_.directional([0, 0, -1], 1)]), { diffuse: 0.5, specular: 0.25 })
+    deepStrictEqual(illuminate([_.point([0, 0, 5], 2)]), { diffuse: 1, specular: 0.5 })
+    // lights behind the face do not reach it
+    deepStrictEqual(illuminate([_.directional([0, 0, 1], 1)]), { diffuse: 0, specular: 0 })
+    // the face is lit on the side facing the viewer, whatever its winding
+    deepStrictEqual(
+      round(_.illuminate([_.directional([0, 0, -1], 1)], material, eye)([0, 0, 0], [0, 0, -1])),
+      { diffuse: 0.5, specular: 0.25 }
+    )
+    // with a parallel projection the viewer is at infinity
+    deepStrictEqual(
+      round(_.illuminate([_.directional([0, 0, 1], 1)], material, [0, 0, -1, 0])([0, 0, 0], [0, 0, 1])),
+      { diffuse: 0.5, specular: 0.25 }
+    )
+  })
+  it('shade', () => {
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hsla(120, 1, 0.5, 1)), hsla(120, 1, 0.25, 1))
+    deepStrictEqual(_.shade({ diffuse: 1, specular: 0.5 })(hsla(120, 1, 0.5, 1)), hsla(120, 1, 0.75, 1))
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('#ff8000')), hex('#804000'))
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('#fff')), hex('#808080'))
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('red')), hex('red'))
+    // the alpha is kept
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('#ff800040')), hex('#80400040'))
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('#fff8')), hex('#80808088'))
+    deepStrictEqual(_.shade({ diffuse: 0.5, specular: 0 })(hex('#ff800')), hex('#ff800'))
+  })
+})
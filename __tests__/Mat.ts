@@ -1,4 +1,6 @@
 import * as assert from 'assert'
+import * as O from 'fp-ts/Option'
+import { pipe } from 'fp-ts/function'
 import * as _ from '../src/Mat'
 
 const deepStrictEqual = <A>(actual: A, expected: A) => {
@@ -40,4 +42,123 @@ describe('Mat', () => {
       [49, 64],
     ])
   })
+  it('lookAt', () => {
+    deepStrictEqual(_.lookAt([0, 0, 5], [0, 0, 0], [0, 1, 0]), [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [-0, -0, -5, 1],
+    ])
+  })
+  it('perspective', () => {
+    const m = _.perspective(90, 2, 1, 3)
+    deepStrictEqual(
+      m.map(r => r.map(n => Math.round(n * 1e6) / 1e6)),
+      [
+        [0.5, 0, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, -2, -1],
+        [0, 0, -3, 0],
+      ]
+    )
+  })
+  it('orthographic', () => {
+    deepStrictEqual(_.orthographic(-2, 2, -1, 1, 1, 3), [
+      [0.5, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, -1, 0],
+      [-0, -0, -2, 1],
+    ])
+  })
+  it('frustum', () => {
+    const round = (m: _.Mat) => m.map(r => r.map(n => Math.round(n * 1e6) / 1e6))
+    // a frustum centered on the line of sight is a perspective
+    deepStrictEqual(round(_.frustum(-2, 2, -1, 1, 1, 3)), round(_.perspective(90, 2, 1, 3)))
+    deepStrictEqual(_.frustum(0, 2, 0, 1, 1, 3)[2], [1, 1, -2, -1])
+  })
+  it('determinant', () => {
+    deepStrictEqual(_.determinant(_.scale([2, 3, 4])), 24)
+    deepStrictEqual(_.determinant(_.translate([1, 2, 3])), 1)
+    deepStrictEqual(
+      _.determinant([
+        [0, 1],
+        [1, 0],
+      ]),
+      -1
+    )
+    deepStrictEqual(_.determinant(_.scale([2, 0, 4])), 0)
+  })
+  it('mul4', () => {
+    const a = _.concatAll([_.rotateZ(30), _.scale([2, 3, 4])])
+    const b = _.translate([1, 2, 3])
+    deepStrictEqual(_.mul4(b)(_.rotateZ(30)), _.mul(b)(_.rotateZ(30)))
+    deepStrictEqual(_.mul4(_.scale([2, 3, 4]))(_.rotateZ(30)), a)
+    // @ts-expect-error only the 4x4 matrices are multiplied
+    _.mul4(b)(a)
+  })
+  it('invert', () => {
+    const round = (m: _.Mat) => m.map(r => r.map(n => Math.round(n * 1e6) / 1e6 + 0))
+    const m = _.concatAll([_.rotateZ(30), _.scale([2, 2, 2]), _.translate([1, 2, 3])])
+    deepStrictEqual(
+      pipe(
+        _.invert(m),
+        O.map(inverse => round(_.mul(inverse)(m)))
+      ),
+      O.some(round(_.identity))
+    )
+    deepStrictEqual(_.invert(_.translate([1, 2, 3])), O.some(_.translate([-1, -2, -3])))
+    deepStrictEqual(_.invert(_.scale([1, 0, 1])), O.none)
+  })
+  it('transformPoint', () => {
+    deepStrictEqual(_.transformPoint(_.translate([1, 2, 3]))([1, 1, 1]), [2, 3, 4])
+    // divided by w
+    deepStrictEqual(
+      _.transformPoint(_.perspective(90, 1, 1, 3))([0, 1, -2]).map(n => Math.round(n * 1e6) / 1e6),
+      [0, 0.5, 0.5]
+    )
+  })
+  it('rotations keep the coordinate along their axis', () => {
+    const round = (v: ReadonlyArray<number>) => v.map(n => Math.round(n * 1e6) / 1e6 + 0)
+    deepStrictEqual(round(_.transformPoint(_.rotateX(90))([1, 2, 3])), [1, -3, 2])
+    deepStrictEqual(round(_.transformPoint(_.rotateY(90))([1, 2, 3])), [3, 2, -1])
+    deepStrictEqual(round(_.transformPoint(_.rotateZ(90))([1, 2, 3])), [-2, 1, 3])
+  })
+  it('reflect', () => {
+    deepStrictEqual(_.transformPoint(_.reflect([0, 2, 0]))([1, 2, 3]), [1, -2, 3])
+    deepStrictEqual(_.determinant(_.reflect([0, 0, 3])), -1)
+    // a zero normal gives the identity
+    deepStrictEqual(_.transformPoint(_.reflect([0, 0, 0]))([1, 2, 3]), [1, 2, 3])
+  })
+  it('transformDirection', () => {
+    deepStrictEqual(
+      _.transformDirection(_.mul(_.translate([1, 2, 3]))(_.scale([2, 2, 2])))([1, 0, 0]),
+      [2, 0, 0]
+    )
+  })
+  it('mat4', () => {
+    deepStrictEqual(_.mat4(_.identity), O.some(_.identity))
+    deepStrictEqual(
+      _.mat4([
+        [1, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ]),
+      O.none
+    )
+    deepStrictEqual(
+      _.mat4([
+        [1, 0, 0, 0],
+        [0, 1, 0, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1],
+      ]),
+      O.none
+    )
+  })
+  it('checks the dimensions', () => {
+    // @ts-expect-error a translation needs three components
+    _.translate([1, 2])
+    const m: _.Mat4 = _.translate([1, 2, 3])
+    deepStrictEqual(_.invert(m), O.some<_.Mat4>(_.translate([-1, -2, -3])))
+  })
 })
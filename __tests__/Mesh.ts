@@ -0,0 +1,63 @@
+import * as assert from 'assert'
+import { mesh } from '../src/Shape'
+import * as _ from '../src/Mesh'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+describe('Mesh', () => {
+  // two triangles sharing the diagonal of a unit square, folded along it
+  const m = mesh(
+    [
+      [0, 0, 0],
+      [1, 0, 0],
+      [1, 1, 0],
+      [0, 1, 1],
+    ],
+    [
+      [0, 1, 2],
+      [0, 2, 3],
+    ]
+  )
+
+  it('fromFaces', () => {
+    deepStrictEqual(_.fromFaces(_.faces(m)), m)
+    // the faces of the mesh come back unchanged
+    deepStrictEqual(_.faces(_.fromFaces([..._.faces(m), ..._.faces(m)])), [..._.faces(m), ..._.faces(m)])
+    deepStrictEqual(_.fromFaces([..._.faces(m), ..._.faces(m)]).vertices, m.vertices)
+  })
+  it('faces', () => {
+    deepStrictEqual(_.faces(m), [
+      [
+        [0, 0, 0],
+        [1, 0, 0],
+        [1, 1, 0],
+      ],
+      [
+        [0, 0, 0],
+        [1, 1, 0],
+        [0, 1, 1],
+      ],
+    ])
+  })
+  it('faceNormals', () => {
+    deepStrictEqual(_.faceNormals(m)[0], [0, 0, 1])
+    deepStrictEqual(_.faceNormals(mesh([[0, 0, 0]], [[0, 0, 0]])), [[0, 0, 0]])
+  })
+  it('vertexNormals', () => {
+    const normals = _.vertexNormals(m)
+    deepStrictEqual(normals[1], [0, 0, 1])
+    deepStrictEqual(normals[0], normals[2])
+    deepStrictEqual(normals[3], _.faceNormals(m)[1])
+  })
+  it('edges', () => {
+    deepStrictEqual(_.edges(m), [
+      { a: 0, b: 1, faces: [0] },
+      { a: 1, b: 2, faces: [0] },
+      { a: 0, b: 2, faces: [0, 1] },
+      { a: 2, b: 3, faces: [1] },
+      { a: 0, b: 3, faces: [1] },
+    ])
+  })
+})
@@ -0,0 +1,118 @@
+import * as assert from 'assert'
+import * as E from 'fp-ts/Either'
+import { composite, mesh } from '../src/Shape'
+import * as _ from '../src/Obj'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const quad = `# a unit square
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+vt 0 0
+vn 0 0 1
+f 1/1/1 2/1/1 3/1/1 4/1/1
+`
+
+describe('Obj', () => {
+  it('parse', () => {
+    deepStrictEqual(
+      _.parse(quad),
+      E.right(
+        composite([
+          mesh(
+            [
+              [0, 0, 0],
+              [1, 0, 0],
+              [1, 1, 0],
+              [0, 1, 0],
+            ],
+            [[0, 1, 2, 3]]
+          ),
+        ])
+      )
+    )
+  })
+  it('parseGroups', () => {
+    const text = `
+v 0 0 0
+v 1 0 0
+v 0 1 0
+o first
+f 1 2 3
+v 0 0 1
+g second part
+f -4//1 -3//1 -1//1
+g empty
+`
+    deepStrictEqual(
+      _.parseGroups(text),
+      E.right([
+        {
+          name: 'first',
+          mesh: mesh(
+            [
+              [0, 0, 0],
+              [1, 0, 0],
+              [0, 1, 0],
+            ],
+            [[0, 1, 2]]
+          ),
+        },
+        {
+          name: 'second part',
+          mesh: mesh(
+            [
+              [0, 0, 0],
+              [1, 0, 0],
+              [0, 0, 1],
+            ],
+            [[0, 1, 2]]
+          ),
+        },
+      ])
+    )
+  })
+  it('vertex colors', () => {
+    deepStrictEqual(
+      _.parse('v 0 0 0 1 0 0\nv 1 0 0 0 1 0\nv 0 1 0 0 0 1\nf 1 2 3'),
+      E.right(
+        composite([
+          mesh(
+            [
+              [0, 0, 0],
+              [1, 0, 0],
+              [0, 1, 0],
+            ],
+            [[0, 1, 2]]
+          ),
+        ])
+      )
+    )
+    // the extra components are not checked, the coordinates are
+    deepStrictEqual(_.parse('v 0 x 0 1 0 0'), E.left({ line: 1, message: 'invalid vertex "0 x 0 1 0 0"' }))
+  })
+  it('parse errors', () => {
+    deepStrictEqual(_.parse('v 0 0 0\nv 1 x 0'), E.left({ line: 2, message: 'invalid vertex "1 x 0"' }))
+    deepStrictEqual(_.parse('v 0 0'), E.left({ line: 1, message: 'invalid vertex "0 0"' }))
+    deepStrictEqual(
+      _.parse('v 0 0 0\nv 1 0 0\n\nf 1 2'),
+      E.left({ line: 4, message: 'a face needs at least 3 vertices' })
+    )
+    deepStrictEqual(
+      _.parse('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 4'),
+      E.left({ line: 4, message: 'invalid vertex reference "4"' })
+    )
+    deepStrictEqual(
+      _.parse('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 0 1 2'),
+      E.left({ line: 4, message: 'invalid vertex reference "0"' })
+    )
+    deepStrictEqual(
+      _.parse('v 0 0 0\nv 1 0 0\nv 0 1 0\nf -4 1 2'),
+      E.left({ line: 4, message: 'invalid vertex reference "-4"' })
+    )
+  })
+})
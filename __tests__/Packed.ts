@@ -0,0 +1,85 @@
+import * as assert from 'assert'
+import * as Mat from '../src/Mat'
+import * as _ from '../src/Packed'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+// a deterministic sequence of numbers in [-1, 1)
+const numbers = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed / 2147483647) * 2 - 1
+}
+
+const matrix = (rows: number, columns: number, next: () => number): Mat.Mat =>
+  Array.from({ length: rows }, () => Array.from({ length: columns }, next)) as unknown as Mat.Mat
+
+describe('Packed', () => {
+  it('pack', () => {
+    const m: Mat.Mat = [
+      [1, 2, 3],
+      [4, 5, 6],
+    ]
+    const p = _.pack(m)
+    deepStrictEqual([p.rows, p.columns, Array.from(p.data)], [2, 3, [1, 2, 3, 4, 5, 6]])
+    deepStrictEqual(_.unpack(p), m)
+    deepStrictEqual(_.pack(m, 'float32').data instanceof Float32Array, true)
+  })
+  it('mulInto', () => {
+    const a = _.pack([
+      [1, 2, 3],
+      [4, 5, 6],
+    ])
+    const b = _.pack([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ])
+    deepStrictEqual(_.unpack(_.mulInto(a, b, _.alloc(2, 2))), [
+      [22, 28],
+      [49, 64],
+    ])
+  })
+  it('transformPointsInto', () => {
+    const points = _.pack([
+      [1, 2, 3, 1],
+      [0, 0, 0, 1],
+    ])
+    const out = _.alloc(2, 4)
+    deepStrictEqual(_.unpack(_.transformPointsInto(points, _.pack(Mat.translate([1, 1, 1])), out)), [
+      [2, 3, 4, 1],
+      [1, 1, 1, 1],
+    ])
+  })
+  it('mul', () => {
+    const next = numbers(42)
+    const points = matrix(100, 4, next)
+    const m = Mat.concatAll([Mat.rotateX(30), Mat.translate([1, 2, 3]), Mat.perspective(60, 1.5, 0.1, 100)])
+    // the same results as the pure implementation, down to the last bit
+    deepStrictEqual(_.mul(m)(points), Mat.mul(m)(points))
+    const a = matrix(3, 5, next)
+    const b = matrix(5, 2, next)
+    deepStrictEqual(_.mul(b)(a), Mat.mul(b)(a))
+    const empty = [] as unknown as Mat.Mat
+    deepStrictEqual(_.mul(m)(empty), empty)
+  })
+  it('getRow', () => {
+    deepStrictEqual(
+      _.getRow(
+        _.pack([
+          [1, 2, 3],
+          [4, 5, 6],
+        ]),
+        1
+      ),
+      [4, 5, 6]
+    )
+  })
+  it('transformPoints', () => {
+    const points = matrix(10, 4, numbers(7))
+    const m = Mat.concatAll([Mat.rotateY(45), Mat.perspective(60, 1.5, 0.1, 100)])
+    deepStrictEqual(_.unpack(_.transformPoints(m)(_.pack(points))), Mat.mul(m)(points))
+    deepStrictEqual(_.transformPoints(m)(_.pack(points, 'float32')).data instanceof Float32Array, true)
+  })
+})
@@ -54,4 +54,69 @@ describe('Path3D', () => {
       ]
     )
   })
+  it('quadraticCurveTo', () => {
+    deepStrictEqual(_.quadraticCurveTo([1, 1, 0], [2, 0, 0])([[[0, 0, 0]]]), [
+      [[0, 0, 0], { _tag: 'Quadratic', control: [1, 1, 0], end: [2, 0, 0] }],
+    ])
+    deepStrictEqual(_.quadraticCurveTo([1, 1, 0], [2, 0, 0])([]), [
+      [[1, 1, 0], { _tag: 'Quadratic', control: [1, 1, 0], end: [2, 0, 0] }],
+    ])
+    deepStrictEqual(_.quadraticCurveTo([1, NaN, 0], [2, 0, 0])([]), [])
+  })
+  it('bezierCurveTo', () => {
+    deepStrictEqual(_.bezierCurveTo([0, 1, 0], [1, 1, 0], [1, 0, 0])([[[0, 0, 0]]]), [
+      [[0, 0, 0], { _tag: 'Cubic', control1: [0, 1, 0], control2: [1, 1, 0], end: [1, 0, 0] }],
+    ])
+  })
+  it('closePath after a curve', () => {
+    deepStrictEqual(_.closePath(_.quadraticCurveTo([1, 1, 0], [2, 0, 0])([[[0, 0, 0]]])), [
+      [[0, 0, 0], { _tag: 'Quadratic', control: [1, 1, 0], end: [2, 0, 0] }, [0, 0, 0]],
+      [[0, 0, 0]],
+    ])
+  })
+  it('flatten', () => {
+    const quadratic = (t: number) => [2 * t, 2 * t * (1 - t)]
+    const points = _.flatten(0.01)([0, 0, 0], { _tag: 'Quadratic', control: [1, 1, 0], end: [2, 0, 0] })
+    deepStrictEqual(points[points.length - 1], [2, 0, 0])
+    // every point is on the curve
+    deepStrictEqual(
+      points.every(([x, y]) => Math.abs(quadratic(x / 2)[1] - y) < 1e-9),
+      true
+    )
+    // the chords are within the tolerance of the curve at their middle
+    deepStrictEqual(
+      [[0, 0, 0], ...points].slice(1).every((b, i, bs) => {
+        const a = i === 0 ? [0, 0, 0] : bs[i - 1]
+        const mid = quadratic((a[0] + b[0]) / 4)
+        return Math.abs(mid[1] - (a[1] + b[1]) / 2) <= 0.01
+      }),
+      true
+    )
+    deepStrictEqual(
+      _.flatten(1)([0, 0, 0], { _tag: 'Quadratic', control: [1, 1, 0], end: [2, 0, 0] }).length <
+        points.length,
+      true
+    )
+    deepStrictEqual(_.flatten(0.01)([0, 0, 0], [1, 2, 3]), [[1, 2, 3]])
+    // a straight curve is a single line
+    deepStrictEqual(
+      _.flatten(0.01)([0, 0, 0], { _tag: 'Cubic', control1: [1, 0, 0], control2: [2, 0, 0], end: [3, 0, 0] }),
+      [[3, 0, 0]]
+    )
+    // homogeneous points are compared after the perspective divide
+    deepStrictEqual(
+      _.flatten(0.01)([0, 0, 0, 2], { _tag: 'Quadratic', control: [2, 2, 0, 2], end: [4, 0, 0, 2] }).length,
+      points.length
+    )
+  })
+  it('toPolyline', () => {
+    deepStrictEqual(
+      _.toPolyline(1)([[0, 0, 0], [1, 0, 0], { _tag: 'Quadratic', control: [2, 0, 0], end: [3, 0, 0] }]),
+      [
+        [0, 0, 0],
+        [1, 0, 0],
+        [3, 0, 0],
+      ]
+    )
+  })
 })
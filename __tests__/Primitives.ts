@@ -0,0 +1,96 @@
+import * as assert from 'assert'
+import { Mesh } from '../src/Shape'
+import { edges, faceNormals, faces } from '../src/Mesh'
+import { Vec, dot, sub } from '../src/Vec'
+import * as _ from '../src/Primitives'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const centroid = (points: ReadonlyArray<Vec>): Vec => {
+  const mean = (k: number) => points.reduce((sum, p) => sum + p[k], 0) / points.length
+  return [mean(0), mean(1), mean(2)]
+}
+
+// every edge is shared by exactly two faces
+const isClosed = (m: Mesh): boolean => edges(m).every(e => e.faces.length === 2)
+
+// every face normal points away from `inside(centroid of the face)`
+const isOutward = (m: Mesh, inside: (p: Vec) => Vec = () => [0, 0, 0]): boolean => {
+  const normals = faceNormals(m)
+  return faces(m).every((face, i) => {
+    const c = centroid(face)
+    return dot(normals[i])(sub(inside(c))(c)) > 0
+  })
+}
+
+describe('Primitives', () => {
+  it('plane', () => {
+    const m = _.plane(2, 4, 2, 3)
+    deepStrictEqual(m.vertices.length, 12)
+    deepStrictEqual(m.faces.length, 6)
+    deepStrictEqual(
+      faceNormals(m).every(n => n[1] === 1),
+      true
+    )
+  })
+  it('box', () => {
+    const m = _.box(1, 2, 3)
+    deepStrictEqual(m.vertices.length, 8)
+    deepStrictEqual(m.faces.length, 6)
+    deepStrictEqual(isClosed(m), true)
+    deepStrictEqual(isOutward(m), true)
+    const subdivided = _.box(1, 2, 3, 3)
+    deepStrictEqual(subdivided.vertices.length, 56)
+    deepStrictEqual(subdivided.faces.length, 54)
+    deepStrictEqual(isClosed(subdivided), true)
+    deepStrictEqual(isOutward(subdivided), true)
+  })
+  it('uvSphere', () => {
+    const m = _.uvSphere(2, 8, 4)
+    deepStrictEqual(m.vertices.length, 26)
+    deepStrictEqual(m.faces.length, 32)
+    deepStrictEqual(isClosed(m), true)
+    deepStrictEqual(isOutward(m), true)
+  })
+  it('icosphere', () => {
+    const m = _.icosphere(2, 1)
+    deepStrictEqual(m.vertices.length, 42)
+    deepStrictEqual(m.faces.length, 80)
+    deepStrictEqual(isClosed(m), true)
+    deepStrictEqual(isOutward(m), true)
+    deepStrictEqual(
+      m.vertices.every(v => Math.abs(Math.sqrt(dot(v)(v)) - 2) < 1e-9),
+      true
+    )
+  })
+  it('cylinder', () => {
+    const m = _.cylinder(1, 2, 6)
+    deepStrictEqual(m.vertices.length, 12)
+    deepStrictEqual(m.faces.length, 8)
+    deepStrictEqual(isClosed(m), true)
+    deepStrictEqual(isOutward(m), true)
+  })
+  it('cone', () => {
+    const m = _.cone(1, 2, 6)
+    deepStrictEqual(m.vertices.length, 7)
+    deepStrictEqual(m.faces.length, 7)
+    deepStrictEqual(isClosed(m), true)
+    deepStrictEqual(isOutward(m), true)
+  })
+  it('torus', () => {
+    const m = _.torus(2, 0.5, 8, 4)
+    deepStrictEqual(m.vertices.length, 32)
+    deepStrictEqual(m.faces.length, 32)
+    deepStrictEqual(isClosed(m), true)
+    // the normals point away from the circle in the middle of the tube
+    deepStrictEqual(
+      isOutward(m, ([x, , z]) => {
+        const d = Math.sqrt(x * x + z * z)
+        return [(x / d) * 2, 0, (z / d) * 2]
+      }),
+      true
+    )
+  })
+})
@@ -0,0 +1,75 @@
+import * as assert from 'assert'
+import * as O from 'fp-ts/Option'
+import * as M from 'fp-ts/Monoid'
+import * as Mat from '../src/Mat'
+import { degrees, radians } from '../src/Shape'
+import * as _ from '../src/Quat'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const round = (n: number) => Math.round(n * 1e6) / 1e6 + 0
+
+const roundMat = (m: Mat.Mat) => m.map(row => row.map(round))
+
+const roundQuat = (q: _.Quat) => q.map(round)
+
+describe('Quat', () => {
+  it('fromAxisAngle', () => {
+    deepStrictEqual(_.fromAxisAngle([0, 0, 0], degrees(90)), _.identity)
+    deepStrictEqual(roundQuat(_.fromAxisAngle([0, 0, 2], degrees(180))), [0, 0, 1, 0])
+    deepStrictEqual(roundMat(_.toMat(_.fromAxisAngle([1, 0, 0], degrees(30)))), roundMat(Mat.rotateX(30)))
+    deepStrictEqual(
+      roundMat(_.toMat(_.fromAxisAngle([0, 1, 0], radians(1)))),
+      roundMat(Mat.rotateY(radians(1).radians * (180 / Math.PI)))
+    )
+  })
+  it('mul', () => {
+    const qx = _.fromAxisAngle([1, 0, 0], degrees(30))
+    const qy = _.fromAxisAngle([0, 1, 0], degrees(60))
+    // in the same order as the matrices
+    deepStrictEqual(roundMat(_.toMat(_.mul(qy)(qx))), roundMat(Mat.mul(Mat.rotateY(60))(Mat.rotateX(30))))
+    deepStrictEqual(_.mul(qx)(_.identity), qx)
+    deepStrictEqual(roundQuat(M.concatAll(_.monoidQuat)([qx, _.conjugate(qx)])), roundQuat(_.identity))
+  })
+  it('fromEuler', () => {
+    const x = degrees(10)
+    const y = degrees(20)
+    const z = degrees(30)
+    deepStrictEqual(
+      roundQuat(_.fromEuler(x, y, z)),
+      roundQuat(
+        M.concatAll(_.monoidQuat)([
+          _.fromAxisAngle([1, 0, 0], x),
+          _.fromAxisAngle([0, 1, 0], y),
+          _.fromAxisAngle([0, 0, 1], z),
+        ])
+      )
+    )
+    deepStrictEqual(
+      roundQuat(_.fromEuler(x, y, z, 'ZYX')),
+      roundQuat(
+        M.concatAll(_.monoidQuat)([
+          _.fromAxisAngle([0, 0, 1], z),
+          _.fromAxisAngle([0, 1, 0], y),
+          _.fromAxisAngle([1, 0, 0], x),
+        ])
+      )
+    )
+  })
+  it('normalize', () => {
+    deepStrictEqual(_.normalize([0, 0, 0, 2]), O.some(_.identity))
+    deepStrictEqual(_.normalize([0, 0, 0, 0]), O.none)
+  })
+  it('slerp', () => {
+    const a = _.fromAxisAngle([0, 0, 1], degrees(0))
+    const b = _.fromAxisAngle([0, 0, 1], degrees(90))
+    deepStrictEqual(roundQuat(_.slerp(b, 0.5)(a)), roundQuat(_.fromAxisAngle([0, 0, 1], degrees(45))))
+    deepStrictEqual(roundQuat(_.slerp(b, 1)(a)), roundQuat(b))
+    // takes the shortest arc when the quaternions are on opposite hemispheres
+    const c = _.fromAxisAngle([0, 0, 1], degrees(350))
+    deepStrictEqual(roundQuat(_.slerp(c, 0.5)(a)), roundQuat(_.fromAxisAngle([0, 0, 1], degrees(-5))))
+    deepStrictEqual(_.slerp(a, 0.5)(a), a)
+  })
+})
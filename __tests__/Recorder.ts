@@ -0,0 +1,80 @@
+import * as assert from 'assert'
+import * as _ from '../src/Recorder'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+describe('Recorder', () => {
+  it('recorder', () => {
+    const { context, events } = _.recorder({ width: 100, height: 50 })
+    deepStrictEqual(context.canvas.width, 100)
+    deepStrictEqual(context.canvas.height, 50)
+    context.fillStyle = 'red'
+    context.moveTo(1, 2)
+    deepStrictEqual(context.fillStyle, 'red')
+    deepStrictEqual(context.lineWidth, 1)
+    deepStrictEqual(events(), [
+      { _tag: 'PropertySet', name: 'fillStyle', value: 'red' },
+      { _tag: 'MethodCall', name: 'moveTo', args: [1, 2] },
+    ])
+  })
+  it('save and restore', () => {
+    const { context } = _.recorder()
+    context.save()
+    context.lineWidth = 3
+    context.setLineDash([1, 2])
+    deepStrictEqual(context.lineWidth, 3)
+    deepStrictEqual(context.getLineDash(), [1, 2])
+    context.restore()
+    deepStrictEqual(context.lineWidth, 1)
+    deepStrictEqual(context.getLineDash(), [])
+  })
+  it('gradients', () => {
+    const { context } = _.recorder()
+    const gradient = context.createLinearGradient(0, 0, 10, 0)
+    gradient.addColorStop(0, 'red')
+    deepStrictEqual((gradient as unknown as _.RecordedGradient).stops, [[0, 'red']])
+  })
+  it('calls', () => {
+    const { context, events } = _.recorder()
+    context.moveTo(1, 2)
+    context.lineTo(3, 4)
+    context.moveTo(5, 6)
+    deepStrictEqual(_.calls('moveTo')(events()), [
+      [1, 2],
+      [5, 6],
+    ])
+  })
+  it('painted', () => {
+    const { context, events } = _.recorder()
+    context.save()
+    context.fillStyle = 'red'
+    context.beginPath()
+    context.moveTo(0, 0)
+    context.lineTo(1, 0)
+    context.moveTo(2, 2)
+    context.lineTo(3, 2)
+    context.fill()
+    context.restore()
+    context.beginPath()
+    context.lineTo(4, 4)
+    context.stroke()
+    const [fill, stroke] = _.painted(events())
+    deepStrictEqual(fill.operation, 'fill')
+    deepStrictEqual(fill.subPaths, [
+      [
+        [0, 0],
+        [1, 0],
+      ],
+      [
+        [2, 2],
+        [3, 2],
+      ],
+    ])
+    deepStrictEqual(fill.properties.fillStyle, 'red')
+    deepStrictEqual(stroke.operation, 'stroke')
+    deepStrictEqual(stroke.subPaths, [[[4, 4]]])
+    deepStrictEqual(stroke.properties.fillStyle, '#000000')
+  })
+})
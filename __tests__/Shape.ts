@@ -0,0 +1,90 @@
+import * as assert from 'assert'
+import { endPoint, isCurve, toPolyline } from '../src/Path3D'
+import { Vec, Vec3, dot, sub } from '../src/Vec'
+import * as _ from '../src/Shape'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const distance = (a: Vec, b: Vec): number => Math.sqrt(dot(sub(a)(b))(sub(a)(b)))
+
+const round = (v: Vec): Vec => [
+  Math.round(v[0] * 1e9) / 1e9 + 0,
+  Math.round(v[1] * 1e9) / 1e9 + 0,
+  Math.round(v[2] * 1e9) / 1e9 + 0,
+]
+
+describe('Shape', () => {
+  it('mesh', () => {
+    const vertices: ReadonlyArray<Vec3> = [
+      [0, 0, 0],
+      [1, 0, 0],
+      [0, 1, 0],
+    ]
+    // the faces pointing past the vertices are dropped
+    deepStrictEqual(
+      _.mesh(vertices, [
+        [0, 1, 2],
+        [0, 1, 3],
+        [-1, 1, 2],
+        [0, 1.5, 2],
+      ]).faces,
+      [[0, 1, 2]]
+    )
+  })
+  it('circle', () => {
+    const c = _.circle([1, 2, 3], [0, 0, 1], 10)
+    deepStrictEqual(c.path.length, 1)
+    const [subPath] = c.path
+    deepStrictEqual(subPath.filter(isCurve).length, 8)
+    // a full turn ends exactly where it starts
+    deepStrictEqual(endPoint(subPath[subPath.length - 1]), subPath[0])
+    deepStrictEqual(round(subPath[0] as Vec), [11, 2, 3])
+    const points = toPolyline(0.001)(subPath)
+    deepStrictEqual(
+      points.every(p => Math.abs(distance(p, [1, 2, 3]) - 10) < 0.001 && p[2] === 3),
+      true
+    )
+  })
+  it('ellipse', () => {
+    // on the plane with normal +Y the X axis is kept and the Y axis becomes -Z
+    const [subPath] = _.ellipse([0, 0, 0], [0, 1, 0], 2, 1).path
+    const points = toPolyline(0.001)(subPath)
+    deepStrictEqual(
+      points.every(([x, y, z]) => y === 0 && Math.abs((x * x) / 4 + z * z - 1) < 0.01),
+      true
+    )
+    deepStrictEqual(round(points[0]), [2, 0, 0])
+    deepStrictEqual(
+      points.some(([x, , z]) => Math.abs(x) < 0.01 && Math.abs(z + 1) < 0.01),
+      true
+    )
+  })
+  it('arc', () => {
+    const [subPath] = _.arc([0, 0, 0], [0, 0, 1], 1, _.degrees(0), _.degrees(90)).path
+    deepStrictEqual(subPath.length, 3)
+    deepStrictEqual(round(subPath[0] as Vec), [1, 0, 0])
+    const points = toPolyline(0.001)(subPath)
+    deepStrictEqual(round(points[points.length - 1]), [0, 1, 0])
+    // negative sweeps turn the other way
+    const [clockwise] = _.arc([0, 0, 0], [0, 0, 1], 1, _.radians(0), _.radians(-Math.PI / 2)).path
+    const end = toPolyline(0.001)(clockwise)
+    deepStrictEqual(round(end[end.length - 1]), [0, -1, 0])
+  })
+  it('annularSector', () => {
+    const [subPath] = _.annularSector([0, 0, 0], [0, 0, 1], 1, 2, _.degrees(0), _.degrees(90)).path
+    const points = toPolyline(0.001)(subPath)
+    deepStrictEqual(round(points[0]), [2, 0, 0])
+    deepStrictEqual(points[0], points[points.length - 1])
+    deepStrictEqual(
+      points.every(p => distance(p, [0, 0, 0]) > 0.999 && distance(p, [0, 0, 0]) < 2.001),
+      true
+    )
+    // a full turn is a ring made of two circles
+    const ring = _.annularSector([0, 0, 0], [0, 0, 1], 1, 2, _.degrees(0), _.degrees(360)).path
+    deepStrictEqual(ring.length, 2)
+    deepStrictEqual(round(ring[0][0] as Vec), [2, 0, 0])
+    deepStrictEqual(round(ring[1][0] as Vec), [1, 0, 0])
+  })
+})
@@ -0,0 +1,116 @@
+import * as assert from 'assert'
+import * as E from 'fp-ts/Either'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { closePath, lineTo, moveTo, quadraticCurveTo } from '../src/Path3D'
+import { closed, composite, mesh, path, point, spline } from '../src/Shape'
+import * as _ from '../src/Stl'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+// a square made of two triangles sharing an edge
+const square = mesh(
+  [
+    [0, 0, 0],
+    [1, 0, 0],
+    [1, 1, 0],
+    [0, 1, 0],
+  ],
+  [
+    [0, 1, 2],
+    [0, 2, 3],
+  ]
+)
+
+describe('Stl', () => {
+  it('triangles', () => {
+    const quad = closed(RA.Foldable)([point(0, 0, 0), point(1, 0, 0), point(1, 1, 0), point(0, 1, 0)])
+    const line = path(RA.Foldable)([point(0, 0, 0), point(1, 0, 0), point(1, 1, 0)])
+    deepStrictEqual(_.triangles(composite([quad, line])), _.triangles(square))
+    // a straight curve is flattened to a single line
+    const curved = spline(
+      closePath(quadraticCurveTo([1, 0.5, 0], [1, 1, 0])(lineTo([1, 0, 0])(moveTo([0, 0, 0])([]))))
+    )
+    deepStrictEqual(_.triangles(composite([curved, line])), [
+      [
+        [0, 0, 0],
+        [1, 0, 0],
+        [1, 1, 0],
+      ],
+    ])
+    deepStrictEqual(_.triangles(square), [
+      [
+        [0, 0, 0],
+        [1, 0, 0],
+        [1, 1, 0],
+      ],
+      [
+        [0, 0, 0],
+        [1, 1, 0],
+        [0, 1, 0],
+      ],
+    ])
+  })
+  it('facetNormal', () => {
+    deepStrictEqual(_.facetNormal(_.triangles(square)[0]), [0, 0, 1])
+    deepStrictEqual(
+      _.facetNormal([
+        [0, 0, 0],
+        [0, 0, 0],
+        [1, 0, 0],
+      ]),
+      [0, 0, 0]
+    )
+  })
+  it('toAscii', () => {
+    deepStrictEqual(
+      _.toAscii(mesh(square.vertices, [[0, 1, 2]]), 'square'),
+      `solid square
+facet normal 0e+0 0e+0 1e+0
+outer loop
+vertex 0e+0 0e+0 0e+0
+vertex 1e+0 0e+0 0e+0
+vertex 1e+0 1e+0 0e+0
+endloop
+endfacet
+endsolid square
+`
+    )
+  })
+  it('parseAscii', () => {
+    deepStrictEqual(_.parseAscii(_.toAscii(square, 'square')), E.right(square))
+    deepStrictEqual(_.parse(_.toAscii(square)), E.right(square))
+    deepStrictEqual(_.parse(new TextEncoder().encode(_.toAscii(square))), E.right(square))
+    deepStrictEqual(_.parseAscii('facet'), E.left({ line: 1, message: 'expected "solid"' }))
+    deepStrictEqual(_.parseAscii('solid\n'), E.left({ line: 2, message: 'expected "endsolid"' }))
+    deepStrictEqual(
+      _.parseAscii('solid\nvertex 0 0 0'),
+      E.left({ line: 2, message: 'vertex outside of a loop' })
+    )
+    deepStrictEqual(
+      _.parseAscii('solid\nfacet normal 0 0 0\nouter loop\nvertex 0 a 0'),
+      E.left({ line: 4, message: 'invalid vertex "0 a 0"' })
+    )
+    deepStrictEqual(
+      _.parseAscii('solid\nfacet normal 0 0 0\nouter loop\nvertex 0 0 0\nendloop'),
+      E.left({ line: 5, message: 'a facet needs exactly 3 vertices' })
+    )
+    deepStrictEqual(_.parseAscii('solid\nfoo'), E.left({ line: 2, message: 'unexpected "foo"' }))
+  })
+  it('toBinary', () => {
+    const bytes = _.toBinary(square)
+    const view = new DataView(bytes.buffer)
+    deepStrictEqual(bytes.length, 84 + 2 * 50)
+    deepStrictEqual(view.getUint32(80, true), 2)
+    deepStrictEqual(view.getFloat32(84 + 8, true), 1)
+  })
+  it('parseBinary', () => {
+    deepStrictEqual(_.parseBinary(_.toBinary(square)), E.right(square))
+    deepStrictEqual(_.parse(_.toBinary(square)), E.right(square))
+    deepStrictEqual(
+      _.parseBinary(new Uint8Array(90)),
+      E.left({ line: 0, message: 'the size does not match the number of facets' })
+    )
+  })
+})
@@ -0,0 +1,144 @@
+import * as assert from 'assert'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { camera } from '../src/Camera'
+import { hex } from '../src/Color'
+import * as D from '../src/Drawing'
+import { closed, degrees, path, point } from '../src/Shape'
+import * as _ from '../src/Svg'
+
+const deepStrictEqual = <A>(actual: A, expected: A) => {
+  assert.deepStrictEqual(actual, expected)
+}
+
+const triangle = closed(RA.Foldable)([point(10, 10, 0), point(20, 10, 0), point(10, 20, 0)])
+
+const svg = (body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="50" viewBox="0 0 100 50">${body}</svg>`
+
+describe('Svg', () => {
+  const dimensions = { width: 100, height: 50 }
+
+  it('fill', () => {
+    deepStrictEqual(
+      _.render(D.fill(triangle, D.fillStyle(hex('#f00'))), dimensions),
+      svg('<path d="M10 10L20 10L10 20L10 10" fill="#f00"/>')
+    )
+    deepStrictEqual(
+      _.render(D.translate(5, 0, 0, D.fill(triangle, D.monoidFillStyle.empty)), dimensions),
+      svg('<path d="M15 10L25 10L15 20L15 10"/>')
+    )
+  })
+  it('outline', () => {
+    const line = path(RA.Foldable)([point(0, 0, 0), point(1.006, 2.5, 0)])
+    deepStrictEqual(
+      _.render(D.outline(line, D.monoidOutlineStyle.concat(D.lineWidth(2), D.lineCap('round'))), dimensions),
+      svg('<path d="M0 0L1.01 2.5" fill="none" stroke="black" stroke-width="2" stroke-linecap="round"/>')
+    )
+    deepStrictEqual(
+      _.render(
+        D.outline(
+          line,
+          D.monoidOutlineStyle.concat(
+            D.monoidOutlineStyle.concat(D.lineDash([4, 2]), D.lineDashOffset(1)),
+            D.miterLimit(3)
+          )
+        ),
+        dimensions
+      ),
+      svg(
+        '<path d="M0 0L1.01 2.5" fill="none" stroke="black" stroke-miterlimit="3" stroke-dasharray="4 2" stroke-dashoffset="1"/>'
+      )
+    )
+  })
+  it('many and clipped', () => {
+    const drawing = D.many([
+      D.clipped(triangle, D.fill(triangle, D.fillStyle(hex('#f00')))),
+      D.clipped(triangle, D.outline(triangle, D.outlineColor(hex('#00f')))),
+    ])
+    deepStrictEqual(
+      _.render(drawing, dimensions),
+      svg(
+        '<g>' +
+          '<clipPath id="clip0"><path d="M10 10L20 10L10 20L10 10"/></clipPath>' +
+          '<g clip-path="url(#clip0)"><path d="M10 10L20 10L10 20L10 10" fill="#f00"/></g>' +
+          '<clipPath id="clip1"><path d="M10 10L20 10L10 20L10 10"/></clipPath>' +
+          '<g clip-path="url(#clip1)"><path d="M10 10L20 10L10 20L10 10" fill="none" stroke="#00f"/></g>' +
+          '</g>'
+      )
+    )
+  })
+  it('camera', () => {
+    const c = camera([0, 0, 10], [0, 0, 0], [0, 1, 0], degrees(90), 2, 1, 100)
+    const square = closed(RA.Foldable)([
+      point(-10, -10, 0),
+      point(10, -10, 0),
+      point(10, 10, 0),
+      point(-10, 10, 0),
+    ])
+    deepStrictEqual(
+      _.render(D.fill(square, D.monoidFillStyle.empty), dimensions, c),
+      svg('<path d="M25 50L75 50L75 0L25 0L25 50"/>')
+    )
+  })
+  it('text', () => {
+    deepStrictEqual(
+      _.render(
+        D.text(
+          [10, 20, 0],
+          'a < b',
+          D.font('serif', 12),
+          D.monoidTextStyle.concat(D.textOutline(hex('#00f')), D.textAlign('center'))
+        ),
+        dimensions
+      ),
+      svg(
+        '<text x="10" y="20" font-family="serif" font-size="12" text-anchor="middle" fill="none" stroke="#00f">' +
+          'a &lt; b</text>'
+      )
+    )
+  })
+  it('gradient', () => {
+    const stops = [D.colorStop(0, hex('#f00')), D.colorStop(1, hex('#00f'))]
+    deepStrictEqual(
+      _.render(
+        D.many([
+          D.fill(triangle, D.fillPaint(D.linearGradient([10, 10, 0], [20, 10, 0], stops))),
+          D.outline(triangle, D.outlinePaint(D.radialGradient([10, 10, 0], 0, [10, 10, 0], 10, stops))),
+        ]),
+        dimensions
+      ),
+      svg(
+        '<g>' +
+          '<linearGradient id="paint0" gradientUnits="userSpaceOnUse" x1="10" y1="10" x2="20" y2="10">' +
+          '<stop offset="0" stop-color="#f00"/><stop offset="1" stop-color="#00f"/></linearGradient>' +
+          '<path d="M10 10L20 10L10 20L10 10" fill="url(#paint0)"/>' +
+          '<radialGradient id="paint1" gradientUnits="userSpaceOnUse" fx="10" fy="10" fr="0" cx="10" cy="10" r="10">' +
+          '<stop offset="0" stop-color="#f00"/><stop offset="1" stop-color="#00f"/></radialGradient>' +
+          '<path d="M10 10L20 10L10 20L10 10" fill="none" stroke="url(#paint1)"/>' +
+          '</g>'
+      )
+    )
+  })
+  it('effects', () => {
+    const red = D.fill(triangle, D.fillStyle(hex('#f00')))
+    deepStrictEqual(
+      _.render(
+        D.withShadow(
+          D.shadow(hex('#000'), 4, 1, 2),
+          D.withAlpha(
+            0.5,
+            D.many([D.withCompositeOperation('multiply', red), D.withCompositeOperation('xor', red)])
+          )
+        ),
+        dimensions
+      ),
+      svg(
+        '<filter id="shadow0"><feDropShadow dx="1" dy="2" stdDeviation="2" flood-color="#000"/></filter>' +
+          '<g filter="url(#shadow0)"><g opacity="0.5"><g>' +
+          '<g style="mix-blend-mode:multiply"><path d="M10 10L20 10L10 20L10 10" fill="#f00"/></g>' +
+          '<g><path d="M10 10L20 10L10 20L10 10" fill="#f00"/></g>' +
+          '</g></g></g>'
+      )
+    )
+  })
+})
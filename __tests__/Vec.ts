@@ -1,4 +1,6 @@
 import * as assert from 'assert'
+import * as O from 'fp-ts/Option'
+import * as M from 'fp-ts/Monoid'
 import * as _ from '../src/Vec'
 
 const deepStrictEqual = <A>(actual: A, expected: A) => {
@@ -15,4 +17,113 @@ describe('Vec', () => {
     const v2: _.Vec = [1, 2, 1]
     deepStrictEqual(_.dot(v1)(v2), 2)
   })
+  it('add', () => {
+    deepStrictEqual(_.add([1, 2, 3])([4, 4, 4]), [5, 6, 7])
+  })
+  it('sub', () => {
+    deepStrictEqual(_.sub([1, 2, 3])([4, 4, 4]), [3, 2, 1])
+  })
+  it('cross', () => {
+    deepStrictEqual(_.cross([0, 1, 0])([1, 0, 0]), [0, 0, 1])
+    deepStrictEqual(_.cross([1, 0, 0])([0, 1, 0]), [0, 0, -1])
+  })
+  it('normal', () => {
+    deepStrictEqual(
+      _.normal([
+        [0, 0, 0],
+        [2, 0, 0],
+        [0, 2, 0],
+      ]),
+      [0, 0, 4]
+    )
+    deepStrictEqual(
+      _.normal([
+        [0, 0, 0],
+        [0, 2, 0],
+        [2, 0, 0],
+      ]),
+      [0, 0, -4]
+    )
+  })
+  it('scale', () => {
+    deepStrictEqual(_.scale(2)([1, 2, 3]), [2, 4, 6])
+  })
+  it('normalize', () => {
+    deepStrictEqual(_.normalize([0, 3, 0]), O.some<_.Vec>([0, 1, 0]))
+    deepStrictEqual(_.normalize([0, 0, 0]), O.none)
+  })
+  it('negate', () => {
+    deepStrictEqual(_.negate([1, -2, 3]), [-1, 2, -3])
+  })
+  it('length', () => {
+    deepStrictEqual(_.length([3, 4, 0]), 5)
+  })
+  it('distance', () => {
+    deepStrictEqual(_.distance([1, 1, 1])([4, 5, 1]), 5)
+  })
+  it('lerp', () => {
+    deepStrictEqual(_.lerp([2, 4, 6], 0.5)([0, 0, 0]), [1, 2, 3])
+    deepStrictEqual(_.lerp([2, 4, 6], 0)([0, 0, 0]), [0, 0, 0])
+  })
+  it('min', () => {
+    deepStrictEqual(_.min([1, 5, 3])([4, 2, 3]), [1, 2, 3])
+  })
+  it('max', () => {
+    deepStrictEqual(_.max([1, 5, 3])([4, 2, 3]), [4, 5, 3])
+  })
+  it('toHomogeneous', () => {
+    deepStrictEqual(_.toHomogeneous([1, 2, 3]), [1, 2, 3, 1])
+  })
+  it('fromHomogeneous', () => {
+    deepStrictEqual(_.fromHomogeneous([2, 4, 6, 2]), O.some<_.Vec>([1, 2, 3]))
+    deepStrictEqual(_.fromHomogeneous([1, 2, 3, 0]), O.none)
+  })
+  it('eqVec', () => {
+    deepStrictEqual(_.eqVec.equals([1, 2, 3], [1, 2, 3]), true)
+    deepStrictEqual(_.eqVec.equals([1, 2, 3], [1, 2, 4]), false)
+    deepStrictEqual(_.eqVec.equals([1, 2, 3], [1, 2, 3, 1]), false)
+  })
+  it('showVec', () => {
+    deepStrictEqual(_.showVec.show([1, 2.5, -3]), '[1, 2.5, -3]')
+  })
+  it('monoidVec3', () => {
+    deepStrictEqual(
+      M.concatAll(_.monoidVec3)([
+        [1, 2, 3],
+        [4, 5, 6],
+      ]),
+      [5, 7, 9]
+    )
+  })
+  it('monoid laws', () => {
+    const laws = <V extends _.Vec>(monoid: M.Monoid<V>, x: V, y: V, z: V) => {
+      deepStrictEqual(monoid.concat(x, monoid.empty), x)
+      deepStrictEqual(monoid.concat(monoid.empty, x), x)
+      deepStrictEqual(monoid.concat(monoid.concat(x, y), z), monoid.concat(x, monoid.concat(y, z)))
+    }
+    laws<_.Vec2>(_.monoidVec2, [1, 2], [3, -4], [5, 6])
+    laws<_.Vec3>(_.monoidVec3, [1, 2, 3], [3, -4, 5], [5, 6, 7])
+    laws<_.Vec4>(_.monoidVec4, [1, 2, 3, 4], [3, -4, 5, 6], [5, 6, 7, 8])
+  })
+  it('vec2', () => {
+    deepStrictEqual(_.vec2([1, 2]), O.some<_.Vec2>([1, 2]))
+    deepStrictEqual(_.vec2([1, 2, 3]), O.none)
+  })
+  it('vec3', () => {
+    deepStrictEqual(_.vec3([1, 2, 3]), O.some<_.Vec3>([1, 2, 3]))
+    deepStrictEqual(_.vec3([1, 2]), O.none)
+  })
+  it('vec4', () => {
+    deepStrictEqual(_.vec4([1, 2, 3, 4]), O.some<_.Vec4>([1, 2, 3, 4]))
+    deepStrictEqual(_.vec4([1, 2, 3]), O.none)
+  })
+  it('keeps the dimension', () => {
+    const u: _.Vec3 = [1, 2, 3]
+    const v: _.Vec3 = _.add([1, 1, 1])(_.scale(2)(u))
+    deepStrictEqual(v, [3, 5, 7])
+    // @ts-expect-error the dimensions differ
+    _.add([1, 1])(u)
+    // @ts-expect-error the dimensions differ
+    _.lerp<_.Vec4>([1, 1, 1, 1], 0.5)(u)
+  })
 })
@@ -0,0 +1,41 @@
+import * as Mat from '../src/Mat'
+import * as Packed from '../src/Packed'
+
+// transforms the vertices of a large scene with the pure and the packed implementations
+
+const VERTICES = 20000
+const RUNS = 50
+
+const vertices = Array.from({ length: VERTICES }, (_, i) => [
+  Math.cos(i),
+  Math.sin(i),
+  i / VERTICES,
+  1,
+]) as unknown as Mat.Mat
+
+const m = Mat.concatAll([Mat.rotateX(30), Mat.translate([1, 2, 3]), Mat.perspective(60, 1.5, 0.1, 100)])
+
+const time = (name: string, f: () => void) => {
+  f()
+  const start = process.hrtime()
+  for (let i = 0; i < RUNS; i++) {
+    f()
+  }
+  const [s, ns] = process.hrtime(start)
+  const ms = (s * 1e3 + ns / 1e6) / RUNS
+  console.log(`${name.padEnd(28)} ${ms.toFixed(3)} ms`)
+  return ms
+}
+
+const points = Packed.pack(vertices)
+const matrix = Packed.pack(m)
+const out = Packed.alloc(VERTICES, 4)
+
+console.log(`${VERTICES} vertices by a 4x4 matrix, mean of ${RUNS} runs`)
+const pure = time('Mat.mul', () => Mat.mul(m)(vertices))
+const packed = time('Packed.mul', () => Packed.mul(m)(vertices))
+time('Packed.transformPoints', () => Packed.transformPoints(m)(points))
+const inPlace = time('Packed.transformPointsInto', () => Packed.transformPointsInto(points, matrix, out))
+console.log(
+  `Packed.mul is ${(pure / packed).toFixed(1)}x faster, without packing ${(pure / inPlace).toFixed(1)}x`
+)
@@ -0,0 +1,59 @@
+import * as Mat from './Mat'
+import { Vec3 } from './Vec'
+import { Angle, angle } from './Shape'
+import { CanvasDimensions } from './Canvas'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+export interface Camera {
+  readonly eye: Vec3
+  readonly target: Vec3
+  readonly up: Vec3
+  readonly fov: Angle
+  readonly aspect: number
+  readonly near: number
+  readonly far: number
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+export const camera: (
+  eye: Vec3,
+  target: Vec3,
+  up: Vec3,
+  fov: Angle,
+  aspect: number,
+  near: number,
+  far: number
+) => Camera = (eye, target, up, fov, aspect, near, far) => ({
+  eye,
+  target,
+  up,
+  fov,
+  aspect,
+  near,
+  far,
+})
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const view = (camera: Camera): Mat.Mat => Mat.lookAt(camera.eye, camera.target, camera.up)
+
+export const projection = (camera: Camera): Mat.Mat =>
+  Mat.perspective(angle(camera.fov), camera.aspect, camera.near, camera.far)
+
+export const viewProjection = (camera: Camera): Mat.Mat => Mat.mul(projection(camera))(view(camera))
+
+// maps normalized device coordinates to canvas pixels, flipping the Y axis
+export const viewport = (dimensions: CanvasDimensions): Mat.Mat => [
+  [dimensions.width / 2, 0, 0, 0],
+  [0, -dimensions.height / 2, 0, 0],
+  [0, 0, 1, 0],
+  [dimensions.width / 2, dimensions.height / 2, 0, 1],
+]
@@ -599,7 +599,9 @@ export const setShadowOffsetY: (offsetY: number) => Render<CanvasRenderingContex
  * @category combinators
  * @since 1.0.0
  */
-export const setStrokeStyle: (style: string) => Render<CanvasRenderingContext2D> = s => ctx => () => {
+export const setStrokeStyle: (
+  style: string | CanvasGradient | CanvasPattern
+) => Render<CanvasRenderingContext2D> = s => ctx => () => {
   ctx.strokeStyle = s
   return ctx
 }
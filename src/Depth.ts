@@ -0,0 +1,111 @@
+import * as RA from 'fp-ts/ReadonlyArray'
+import * as RNEA from 'fp-ts/ReadonlyNonEmptyArray'
+import { pipe } from 'fp-ts/function'
+import * as N from 'fp-ts/number'
+import * as Ord from 'fp-ts/Ord'
+import { Vec, dot, normal, sub } from './Vec'
+
+const EPSILON = 1e-9
+
+const axes: RNEA.ReadonlyNonEmptyArray<number> = [0, 1, 2]
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+interface Face<A> {
+  readonly value: A
+  readonly points: ReadonlyArray<Vec>
+  readonly min: Vec
+  readonly max: Vec
+  readonly normal: Vec
+}
+
+const toFace =
+  <A>(f: (a: A) => ReadonlyArray<Vec>) =>
+  (value: A): Face<A> => {
+    const points = f(value)
+    return {
+      value,
+      points,
+      min: RNEA.map((i: number) => Math.min(...points.map(p => p[i])))(axes),
+      max: RNEA.map((i: number) => Math.max(...points.map(p => p[i])))(axes),
+      normal: normal(points),
+    }
+  }
+
+// farthest faces first
+const ordFace: Ord.Ord<Face<unknown>> = pipe(
+  N.Ord,
+  Ord.reverse,
+  Ord.contramap(face => face.max[2])
+)
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// -1 if every point lies behind the plane of the face as seen by a viewer looking
+// down the positive Z axis, 1 if every point lies in front of it, and 0 otherwise
+const side = (face: Face<unknown>, points: ReadonlyArray<Vec>): number => {
+  const towardsViewer = -face.normal[2]
+  if (Math.abs(towardsViewer) < EPSILON) {
+    return 0
+  }
+  const distances = points.map(p => dot(face.normal)(sub(face.points[0])(p)) * Math.sign(towardsViewer))
+  return distances.every(d => d <= EPSILON) ? -1 : distances.every(d => d >= -EPSILON) ? 1 : 0
+}
+
+const disjoint = (p: Face<unknown>, q: Face<unknown>, i: number): boolean =>
+  p.max[i] <= q.min[i] || q.max[i] <= p.min[i]
+
+// whether drawing `p` before `q` may paint over a part of `p` that should stay visible
+const obscures = (p: Face<unknown>, q: Face<unknown>): boolean =>
+  !(
+    disjoint(p, q, 2) ||
+    disjoint(p, q, 0) ||
+    disjoint(p, q, 1) ||
+    side(q, p.points) < 0 ||
+    side(p, q.points) > 0
+  )
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+// orders planar faces given in screen space (Z growing away from the viewer) so that painting
+// them in sequence leaves the nearest ones on top. Faces are sorted by their farthest point,
+// then faces whose depth ranges overlap are reordered with the tests of Newell's algorithm.
+// Cyclically overlapping faces are not split, they keep the order of the initial sort.
+export const backToFront =
+  <A>(f: (a: A) => ReadonlyArray<Vec>) =>
+  (as: ReadonlyArray<A>): ReadonlyArray<A> => {
+    const faces = pipe(
+      as,
+      RA.map(toFace(f)),
+      RA.filter(face => RA.isNonEmpty(face.points)),
+      RA.sort(ordFace)
+    )
+    const result = faces.slice()
+    const moved = new Set<Face<A>>()
+    let i = 0
+    while (i < result.length) {
+      const p = result[i]
+      let swap = -1
+      // only the faces that follow and whose depth range overlaps `p` need to be checked
+      for (let j = i + 1; swap < 0 && j < result.length && result[j].max[2] > p.min[2]; j++) {
+        const q = result[j]
+        if (obscures(p, q) && !moved.has(q) && !obscures(q, p)) {
+          swap = j
+        }
+      }
+      if (swap < 0) {
+        i++
+      } else {
+        const q = result.splice(swap, 1)[0]
+        result.splice(i, 0, q)
+        moved.add(q)
+      }
+    }
+    return result.map(face => face.value)
+  }
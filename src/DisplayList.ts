@@ -0,0 +1,342 @@
+import * as IO from 'fp-ts/IO'
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import * as RIO from 'fp-ts/ReaderIO'
+import { pipe } from 'fp-ts/function'
+import * as C from './Canvas'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+// a point in canvas coordinates
+export type Point2D = readonly [number, number]
+
+export type SubPath = ReadonlyArray<Point2D>
+
+export type ColorStop = readonly [number, string]
+
+export interface LinearGradientStyle {
+  readonly _tag: 'LinearGradient'
+  readonly start: Point2D
+  readonly end: Point2D
+  readonly stops: ReadonlyArray<ColorStop>
+}
+
+export interface RadialGradientStyle {
+  readonly _tag: 'RadialGradient'
+  readonly start: Point2D
+  readonly startRadius: number
+  readonly end: Point2D
+  readonly endRadius: number
+  readonly stops: ReadonlyArray<ColorStop>
+}
+
+// the only style referring to an object, its image
+export interface PatternStyle {
+  readonly _tag: 'Pattern'
+  readonly image: C.ImageSource
+  readonly repetition: C.PatternRepetition
+}
+
+// a CSS color, a gradient or a pattern
+export type Style = string | LinearGradientStyle | RadialGradientStyle | PatternStyle
+
+// the styles of a path, resolved to the values of the canvas properties, unset styles keep
+// the canvas defaults
+export interface FillPathStyle {
+  readonly fillStyle: O.Option<Style>
+}
+
+export interface StrokePathStyle {
+  readonly strokeStyle: O.Option<Style>
+  readonly lineWidth: O.Option<number>
+  readonly lineCap: O.Option<C.LineCap>
+  readonly lineJoin: O.Option<C.LineJoin>
+  readonly lineDash: O.Option<ReadonlyArray<number>>
+  readonly lineDashOffset: O.Option<number>
+  readonly miterLimit: O.Option<number>
+}
+
+// the text is filled unless it only has a stroke style
+export interface DrawTextStyle {
+  readonly font: string
+  readonly fillStyle: O.Option<string>
+  readonly strokeStyle: O.Option<string>
+  readonly textAlign: O.Option<C.TextAlign>
+  readonly textBaseline: O.Option<C.TextBaseline>
+}
+
+export interface FillPath {
+  readonly _tag: 'FillPath'
+  readonly subPaths: ReadonlyArray<SubPath>
+  readonly style: FillPathStyle
+}
+
+export interface StrokePath {
+  readonly _tag: 'StrokePath'
+  readonly subPaths: ReadonlyArray<SubPath>
+  readonly style: StrokePathStyle
+}
+
+export interface DrawText {
+  readonly _tag: 'DrawText'
+  readonly position: Point2D
+  readonly text: string
+  readonly style: DrawTextStyle
+}
+
+// restricts the commands up to the matching `PopClip` to the inside of the subpaths
+export interface PushClip {
+  readonly _tag: 'PushClip'
+  readonly subPaths: ReadonlyArray<SubPath>
+}
+
+export interface PopClip {
+  readonly _tag: 'PopClip'
+}
+
+export interface ShadowEffect {
+  readonly _tag: 'Shadow'
+  readonly color: string
+  readonly blur: number
+  readonly offsetX: number
+  readonly offsetY: number
+}
+
+// the alpha multiplies the current global alpha
+export interface AlphaEffect {
+  readonly _tag: 'Alpha'
+  readonly alpha: number
+}
+
+export interface CompositeOperationEffect {
+  readonly _tag: 'CompositeOperation'
+  readonly operation: C.GlobalCompositeOperation
+}
+
+export type Effect = ShadowEffect | AlphaEffect | CompositeOperationEffect
+
+// applies the effect to the commands up to the matching `PopEffect`
+export interface PushEffect {
+  readonly _tag: 'PushEffect'
+  readonly effect: Effect
+}
+
+export interface PopEffect {
+  readonly _tag: 'PopEffect'
+}
+
+export type Command = FillPath | StrokePath | DrawText | PushClip | PopClip | PushEffect | PopEffect
+
+// a flat list of commands, free of functions so that it can be cached or serialized
+export type DisplayList = ReadonlyArray<Command>
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+export const fillPath = (subPaths: ReadonlyArray<SubPath>, style: FillPathStyle): Command => ({
+  _tag: 'FillPath',
+  subPaths,
+  style,
+})
+
+export const strokePath = (subPaths: ReadonlyArray<SubPath>, style: StrokePathStyle): Command => ({
+  _tag: 'StrokePath',
+  subPaths,
+  style,
+})
+
+export const drawText = (position: Point2D, text: string, style: DrawTextStyle): Command => ({
+  _tag: 'DrawText',
+  position,
+  text,
+  style,
+})
+
+export const pushClip = (subPaths: ReadonlyArray<SubPath>): Command => ({ _tag: 'PushClip', subPaths })
+
+export const popClip: Command = { _tag: 'PopClip' }
+
+export const pushEffect = (effect: Effect): Command => ({ _tag: 'PushEffect', effect })
+
+export const popEffect: Command = { _tag: 'PopEffect' }
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+const traverseReaderIO = RA.Traversable.traverse(RIO.Applicative)
+
+const applyStyle = <A>(
+  fa: O.Option<A>,
+  f: (a: A) => C.Render<CanvasRenderingContext2D>
+): C.Render<CanvasRenderingContext2D> =>
+  pipe(
+    fa,
+    O.fold(() => IO.of, f)
+  )
+
+// `None` for a pattern whose image is not ready yet
+const toCanvasStyle = (style: Style): C.Render<O.Option<string | CanvasGradient | CanvasPattern>> => {
+  if (typeof style === 'string') {
+    return RIO.of(O.some(style))
+  }
+  switch (style._tag) {
+    case 'LinearGradient':
+      return pipe(
+        C.createLinearGradient(style.start[0], style.start[1], style.end[0], style.end[1]),
+        RIO.chainIOK(addColorStops(style.stops)),
+        RIO.map(O.some)
+      )
+    case 'RadialGradient':
+      return pipe(
+        C.createRadialGradient(
+          style.start[0],
+          style.start[1],
+          style.startRadius,
+          style.end[0],
+          style.end[1],
+          style.endRadius
+        ),
+        RIO.chainIOK(addColorStops(style.stops)),
+        RIO.map(O.some)
+      )
+    case 'Pattern':
+      return C.createPattern(style.image, style.repetition)
+  }
+}
+
+const addColorStops =
+  (stops: ReadonlyArray<ColorStop>) =>
+  (gradient: CanvasGradient): IO.IO<CanvasGradient> =>
+    pipe(
+      traverseReaderIO(stops, ([offset, color]) => C.addColorStop(offset, color)),
+      RIO.map(() => gradient)
+    )(gradient)
+
+// a pattern whose image is not ready yet keeps the current style
+const setStyle =
+  (f: (style: string | CanvasGradient | CanvasPattern) => C.Render<CanvasRenderingContext2D>) =>
+  (style: Style): C.Render<CanvasRenderingContext2D> =>
+    pipe(
+      toCanvasStyle(style),
+      RIO.chain(canvasStyle => applyStyle(canvasStyle, f))
+    )
+
+const renderSubPath: (subPath: SubPath) => C.Render<CanvasRenderingContext2D> = RA.foldLeft(
+  () => IO.of,
+  (head, tail) =>
+    pipe(
+      C.moveTo(head),
+      RIO.chain(() => traverseReaderIO(tail, C.lineTo)),
+      RIO.chain(() => IO.of)
+    )
+)
+
+const renderSubPaths = (subPaths: ReadonlyArray<SubPath>): C.Render<CanvasRenderingContext2D> =>
+  pipe(
+    C.beginPath,
+    RIO.chain(() => traverseReaderIO(subPaths, renderSubPath)),
+    RIO.chain(() => IO.of)
+  )
+
+const applyEffect = (effect: Effect): C.Render<CanvasRenderingContext2D> => {
+  switch (effect._tag) {
+    case 'Shadow':
+      return pipe(
+        C.setShadowColor(effect.color),
+        RIO.chain(() => C.setShadowBlur(effect.blur)),
+        RIO.chain(() => C.setShadowOffsetX(effect.offsetX)),
+        RIO.chain(() => C.setShadowOffsetY(effect.offsetY))
+      )
+    case 'Alpha':
+      return pipe(
+        RIO.asks((ctx: CanvasRenderingContext2D) => ctx.globalAlpha),
+        RIO.chain(alpha => C.setGlobalAlpha(alpha * effect.alpha))
+      )
+    case 'CompositeOperation':
+      return C.setGlobalCompositeOperation(effect.operation)
+  }
+}
+
+const replayCommand = (command: Command): C.Render<CanvasRenderingContext2D> => {
+  switch (command._tag) {
+    case 'FillPath':
+      return C.withContext(
+        pipe(
+          applyStyle(command.style.fillStyle, setStyle(C.setFillStyle)),
+          RIO.chain(() => renderSubPaths(command.subPaths)),
+          RIO.chain(() => C.fill())
+        )
+      )
+    case 'StrokePath':
+      return C.withContext(
+        pipe(
+          applyStyle(command.style.strokeStyle, setStyle(C.setStrokeStyle)),
+          RIO.chain(() => applyStyle(command.style.lineWidth, C.setLineWidth)),
+          RIO.chain(() => applyStyle(command.style.lineCap, C.setLineCap)),
+          RIO.chain(() => applyStyle(command.style.lineJoin, C.setLineJoin)),
+          RIO.chain(() => applyStyle(command.style.lineDash, C.setLineDash)),
+          RIO.chain(() => applyStyle(command.style.lineDashOffset, C.setLineDashOffset)),
+          RIO.chain(() => applyStyle(command.style.miterLimit, C.setMiterLimit)),
+          RIO.chain(() => renderSubPaths(command.subPaths)),
+          RIO.chain(() => C.stroke())
+        )
+      )
+    case 'DrawText': {
+      const { position, text, style } = command
+      return C.withContext(
+        pipe(
+          C.setFont(style.font),
+          RIO.chain(() => applyStyle(style.textAlign, C.setTextAlign)),
+          RIO.chain(() => applyStyle(style.textBaseline, C.setTextBaseline)),
+          RIO.chain(() =>
+            O.isSome(style.fillStyle) || O.isNone(style.strokeStyle)
+              ? pipe(
+                  applyStyle(style.fillStyle, C.setFillStyle),
+                  RIO.chain(() => C.fillText(text, position[0], position[1]))
+                )
+              : IO.of
+          ),
+          RIO.chain(() =>
+            pipe(
+              style.strokeStyle,
+              O.fold(
+                () => IO.of,
+                strokeStyle =>
+                  pipe(
+                    C.setStrokeStyle(strokeStyle),
+                    RIO.chain(() => C.strokeText(text, position[0], position[1]))
+                  )
+              )
+            )
+          )
+        )
+      )
+    }
+    case 'PushClip':
+      return pipe(
+        C.save,
+        RIO.chain(() => renderSubPaths(command.subPaths)),
+        RIO.chain(() => C.clip())
+      )
+    case 'PopClip':
+      return C.restore
+    case 'PushEffect':
+      return pipe(
+        C.save,
+        RIO.chain(() => applyEffect(command.effect))
+      )
+    case 'PopEffect':
+      return C.restore
+  }
+}
+
+// draws the commands in order onto a canvas
+export const replay = (list: DisplayList): C.Render<CanvasRenderingContext2D> =>
+  pipe(
+    traverseReaderIO(list, replayCommand),
+    RIO.chain(() => IO.of)
+  )
@@ -7,11 +7,19 @@ import * as M from 'fp-ts/Monoid'
 import { first } from 'fp-ts/lib/Semigroup'
 import * as RNEA from 'fp-ts/ReadonlyNonEmptyArray'
 import * as Mat from './Mat'
+import * as Packed from './Packed'
 import * as V from './Vec'
 import * as C from './Canvas'
+import * as DL from './DisplayList'
+import { Camera, viewProjection, viewport } from './Camera'
+import { backToFront } from './Depth'
+import * as F from './Frustum'
+import * as L from './Light'
 import { Color, toCss } from './Color'
 import { Angle, Shape, angle } from './Shape'
-import { Path3D, closePath, lineTo, moveTo } from './Path3D'
+import * as P from './Path3D'
+import * as Q from './Quat'
+import { faces } from './Mesh'
 
 const traverseReaderIO = RA.Traversable.traverse(RIO.Applicative)
 
@@ -84,6 +92,66 @@ export const scale: (scaleX: number, scaleY: number, scaleZ: number, drawing: Dr
   drawing,
 })
 
+// rotates by a quaternion, free of the gimbal lock of the Euler angles of `Rotate`
+export interface RotateQuat {
+  readonly _tag: 'RotateQuat'
+  readonly rotation: Q.Quat
+  readonly drawing: Drawing
+}
+
+// the rotation need not be a unit quaternion, a zero quaternion gives the identity
+export const rotateQuat: (rotation: Q.Quat, drawing: Drawing) => Drawing = (rotation, drawing) => ({
+  _tag: 'RotateQuat',
+  rotation: pipe(
+    Q.normalize(rotation),
+    O.getOrElse(() => Q.identity)
+  ),
+  drawing,
+})
+
+export const rotateAxis: (axis: V.Vec3, angle: Angle, drawing: Drawing) => Drawing = (axis, angle, drawing) =>
+  rotateQuat(Q.fromAxisAngle(axis, angle), drawing)
+
+// an arbitrary 4x4 matrix for row vectors, applied like the other transforms
+export interface Transform {
+  readonly _tag: 'Transform'
+  readonly transform: Mat.Mat4
+  readonly drawing: Drawing
+}
+
+export const transform: (transform: Mat.Mat4, drawing: Drawing) => Drawing = (transform, drawing) => ({
+  _tag: 'Transform',
+  transform,
+  drawing,
+})
+
+// the matrix `m` applied with `pivot` as the origin
+const about = (pivot: V.Vec3, m: Mat.Mat4): Mat.Mat4 =>
+  Mat.mul4(Mat.translate(pivot))(Mat.mul4(m)(Mat.translate(V.negate(pivot))))
+
+export const rotateAbout: (pivot: V.Vec3, rotation: Q.Quat, drawing: Drawing) => Drawing = (
+  pivot,
+  rotation,
+  drawing
+) => transform(about(pivot, Q.toMat(rotation)), drawing)
+
+export const scaleAbout: (
+  pivot: V.Vec3,
+  scaleX: number,
+  scaleY: number,
+  scaleZ: number,
+  drawing: Drawing
+) => Drawing = (pivot, scaleX, scaleY, scaleZ, drawing) =>
+  transform(about(pivot, Mat.scale([scaleX, scaleY, scaleZ])), drawing)
+
+// mirrors across the plane through `point` perpendicular to `normal`, the faces keep facing the
+// same side for the culling and the lighting
+export const mirror: (point: V.Vec3, normal: V.Vec3, drawing: Drawing) => Drawing = (
+  point,
+  normal,
+  drawing
+) => transform(about(point, Mat.reflect(normal)), drawing)
+
 export interface Many {
   readonly _tag: 'Many'
   readonly drawings: ReadonlyArray<Drawing>
@@ -106,21 +174,65 @@ export interface Fill {
   readonly style: FillStyle
 }
 
+export interface ColorStop {
+  readonly offset: number
+  readonly color: Color
+}
+
+export interface LinearGradient {
+  readonly _tag: 'LinearGradient'
+  readonly start: V.Vec
+  readonly end: V.Vec
+  readonly stops: ReadonlyArray<ColorStop>
+}
+
+// the colors go from the circle around `start` to the circle around `end`, the circles face
+// the viewer and their radii are projected like the lengths at their centers
+export interface RadialGradient {
+  readonly _tag: 'RadialGradient'
+  readonly start: V.Vec
+  readonly startRadius: number
+  readonly end: V.Vec
+  readonly endRadius: number
+  readonly stops: ReadonlyArray<ColorStop>
+}
+
+export interface Pattern {
+  readonly _tag: 'Pattern'
+  readonly image: C.ImageSource
+  readonly repetition: C.PatternRepetition
+}
+
+// a gradient, whose points are transformed and projected with the shape it paints, or an image
+// pattern, used instead of the color of a style
+export type Paint = LinearGradient | RadialGradient | Pattern
+
 export interface FillStyle {
   readonly color: O.Option<Color>
+  readonly paint: O.Option<Paint>
+  readonly material: O.Option<L.Material>
 }
 
 export interface OutlineStyle {
   readonly color: O.Option<Color>
+  readonly paint: O.Option<Paint>
   readonly lineWidth: O.Option<number>
   readonly lineCap: O.Option<LineCap>
   readonly lineJoin: O.Option<LineJoin>
+  readonly lineDash: O.Option<ReadonlyArray<number>>
+  readonly lineDashOffset: O.Option<number>
+  readonly miterLimit: O.Option<number>
+  readonly sizing: O.Option<LineSizing>
 }
 
 export type LineCap = 'butt' | 'round' | 'square'
 
 export type LineJoin = 'bevel' | 'miter' | 'round'
 
+// the width, the dashes and the dash offset of a screen sized line are in pixels, those of a
+// depth scaled line are in world units and shrink with the distance like the shape they outline
+export type LineSizing = 'screen' | 'depthScaled'
+
 export interface Outline {
   readonly _tag: 'Outline'
   readonly shape: Shape
@@ -129,30 +241,185 @@ export interface Outline {
 
 export const outlineColor: (color: Color) => OutlineStyle = c => ({
   color: O.some(c),
+  paint: O.none,
   lineWidth: O.none,
   lineCap: O.none,
   lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
 })
 
 export const lineWidth: (lineWidth: number) => OutlineStyle = w => ({
   color: O.none,
+  paint: O.none,
   lineWidth: O.some(w),
   lineCap: O.none,
   lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
 })
 
 export const lineCap: (lineCap: LineCap) => OutlineStyle = w => ({
   color: O.none,
+  paint: O.none,
   lineCap: O.some(w),
   lineWidth: O.none,
   lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
 })
 
 export const lineJoin: (lineJoin: LineJoin) => OutlineStyle = w => ({
   color: O.none,
+  paint: O.none,
   lineJoin: O.some(w),
   lineWidth: O.none,
   lineCap: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
+})
+
+export const lineDash: (segments: ReadonlyArray<number>) => OutlineStyle = ss => ({
+  color: O.none,
+  paint: O.none,
+  lineWidth: O.none,
+  lineCap: O.none,
+  lineJoin: O.none,
+  lineDash: O.some(ss),
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
+})
+
+export const lineDashOffset: (offset: number) => OutlineStyle = o => ({
+  color: O.none,
+  paint: O.none,
+  lineWidth: O.none,
+  lineCap: O.none,
+  lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.some(o),
+  miterLimit: O.none,
+  sizing: O.none,
+})
+
+export const miterLimit: (limit: number) => OutlineStyle = l => ({
+  color: O.none,
+  paint: O.none,
+  lineWidth: O.none,
+  lineCap: O.none,
+  lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.some(l),
+  sizing: O.none,
+})
+
+export const lineSizing: (sizing: LineSizing) => OutlineStyle = s => ({
+  color: O.none,
+  paint: O.none,
+  lineWidth: O.none,
+  lineCap: O.none,
+  lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.some(s),
+})
+
+export interface Font {
+  readonly fontFamily: string
+  // in pixels, or in world units at the position of a depth scaled text
+  readonly size: number
+}
+
+export type TextAlign = 'center' | 'end' | 'left' | 'right' | 'start'
+
+export type TextBaseline = 'alphabetic' | 'bottom' | 'hanging' | 'ideographic' | 'middle' | 'top'
+
+// billboard texts keep their size on screen, depth scaled texts shrink with the distance like
+// the shapes around them
+export type TextSizing = 'billboard' | 'depthScaled'
+
+// a text is filled unless it only has an outline color
+export interface TextStyle {
+  readonly fillColor: O.Option<Color>
+  readonly outlineColor: O.Option<Color>
+  readonly textAlign: O.Option<TextAlign>
+  readonly textBaseline: O.Option<TextBaseline>
+  readonly sizing: O.Option<TextSizing>
+}
+
+// a label facing the viewer, anchored at a point that is transformed like the shapes
+export interface Text {
+  readonly _tag: 'Text'
+  readonly position: V.Vec3
+  readonly text: string
+  readonly font: Font
+  readonly style: TextStyle
+}
+
+export const font: (fontFamily: string, size: number) => Font = (fontFamily, size) => ({ fontFamily, size })
+
+export const textFill: (color: Color) => TextStyle = c => ({
+  fillColor: O.some(c),
+  outlineColor: O.none,
+  textAlign: O.none,
+  textBaseline: O.none,
+  sizing: O.none,
+})
+
+export const textOutline: (color: Color) => TextStyle = c => ({
+  fillColor: O.none,
+  outlineColor: O.some(c),
+  textAlign: O.none,
+  textBaseline: O.none,
+  sizing: O.none,
+})
+
+export const textAlign: (textAlign: TextAlign) => TextStyle = a => ({
+  fillColor: O.none,
+  outlineColor: O.none,
+  textAlign: O.some(a),
+  textBaseline: O.none,
+  sizing: O.none,
+})
+
+export const textBaseline: (textBaseline: TextBaseline) => TextStyle = b => ({
+  fillColor: O.none,
+  outlineColor: O.none,
+  textAlign: O.none,
+  textBaseline: O.some(b),
+  sizing: O.none,
+})
+
+export const textSizing: (sizing: TextSizing) => TextStyle = s => ({
+  fillColor: O.none,
+  outlineColor: O.none,
+  textAlign: O.none,
+  textBaseline: O.none,
+  sizing: O.some(s),
+})
+
+export const text: (position: V.Vec3, text: string, font: Font, style: TextStyle) => Drawing = (
+  position,
+  text,
+  font,
+  style
+) => ({
+  _tag: 'Text',
+  position,
+  text,
+  font,
+  style,
 })
 
 export const clipped: (shape: Shape, drawing: Drawing) => Drawing = (shape, drawing) => ({
@@ -167,7 +434,72 @@ export const fill: (shape: Shape, style: FillStyle) => Drawing = (shape, style)
   style,
 })
 
-export const fillStyle: (color: Color) => FillStyle = c => ({ color: O.some(c) })
+export const fillStyle: (color: Color) => FillStyle = c => ({
+  color: O.some(c),
+  paint: O.none,
+  material: O.none,
+})
+
+export const fillPaint: (paint: Paint) => FillStyle = p => ({
+  color: O.none,
+  paint: O.some(p),
+  material: O.none,
+})
+
+export const fillMaterial: (material: L.Material) => FillStyle = m => ({
+  color: O.none,
+  paint: O.none,
+  material: O.some(m),
+})
+
+export const outlinePaint: (paint: Paint) => OutlineStyle = p => ({
+  color: O.none,
+  paint: O.some(p),
+  lineWidth: O.none,
+  lineCap: O.none,
+  lineJoin: O.none,
+  lineDash: O.none,
+  lineDashOffset: O.none,
+  miterLimit: O.none,
+  sizing: O.none,
+})
+
+export const colorStop: (offset: number, color: Color) => ColorStop = (offset, color) => ({ offset, color })
+
+export const linearGradient: (start: V.Vec, end: V.Vec, stops: ReadonlyArray<ColorStop>) => Paint = (
+  start,
+  end,
+  stops
+) => ({
+  _tag: 'LinearGradient',
+  start,
+  end,
+  stops,
+})
+
+export const radialGradient: (
+  start: V.Vec,
+  startRadius: number,
+  end: V.Vec,
+  endRadius: number,
+  stops: ReadonlyArray<ColorStop>
+) => Paint = (start, startRadius, end, endRadius, stops) => ({
+  _tag: 'RadialGradient',
+  start,
+  startRadius,
+  end,
+  endRadius,
+  stops,
+})
+
+export const pattern: (image: C.ImageSource, repetition: C.PatternRepetition) => Paint = (
+  image,
+  repetition
+) => ({
+  _tag: 'Pattern',
+  image,
+  repetition,
+})
 
 export const outline: (shape: Shape, style: OutlineStyle) => Drawing = (shape, style) => ({
   _tag: 'Outline',
@@ -175,7 +507,113 @@ export const outline: (shape: Shape, style: OutlineStyle) => Drawing = (shape, s
   style,
 })
 
-export type Drawing = Clipped | Outline | Fill | Many | Translate | Rotate | Scale
+export interface DepthSorted {
+  readonly _tag: 'DepthSorted'
+  readonly drawing: Drawing
+}
+
+// paints the fills and outlines of the drawing back-to-front instead of in tree order
+export const depthSorted: (drawing: Drawing) => Drawing = drawing => ({
+  _tag: 'DepthSorted',
+  drawing,
+})
+
+export interface Culled {
+  readonly _tag: 'Culled'
+  readonly drawing: Drawing
+}
+
+// skips the closed subpaths of the drawing whose points wind clockwise as seen by the viewer
+export const culled: (drawing: Drawing) => Drawing = drawing => ({
+  _tag: 'Culled',
+  drawing,
+})
+
+export interface Lit {
+  readonly _tag: 'Lit'
+  readonly lights: ReadonlyArray<L.Light>
+  readonly drawing: Drawing
+}
+
+// shades the fills of the drawing that have a material, lights are transformed along with it
+export const lit: (lights: ReadonlyArray<L.Light>, drawing: Drawing) => Drawing = (lights, drawing) => ({
+  _tag: 'Lit',
+  lights,
+  drawing,
+})
+
+// the blur and the offsets are in pixels, the shadow ignores the transform like on the canvas
+export interface Shadow {
+  readonly color: Color
+  readonly blur: number
+  readonly offsetX: number
+  readonly offsetY: number
+}
+
+export const shadow: (color: Color, blur: number, offsetX: number, offsetY: number) => Shadow = (
+  color,
+  blur,
+  offsetX,
+  offsetY
+) => ({ color, blur, offsetX, offsetY })
+
+export interface Shadowed {
+  readonly _tag: 'Shadowed'
+  readonly shadow: Shadow
+  readonly drawing: Drawing
+}
+
+export const withShadow: (shadow: Shadow, drawing: Drawing) => Drawing = (shadow, drawing) => ({
+  _tag: 'Shadowed',
+  shadow,
+  drawing,
+})
+
+export interface Alpha {
+  readonly _tag: 'Alpha'
+  readonly alpha: number
+  readonly drawing: Drawing
+}
+
+// the alpha multiplies the alphas of the enclosing drawings
+export const withAlpha: (alpha: number, drawing: Drawing) => Drawing = (alpha, drawing) => ({
+  _tag: 'Alpha',
+  alpha,
+  drawing,
+})
+
+export interface CompositeOperation {
+  readonly _tag: 'CompositeOperation'
+  readonly operation: C.GlobalCompositeOperation
+  readonly drawing: Drawing
+}
+
+export const withCompositeOperation: (operation: C.GlobalCompositeOperation, drawing: Drawing) => Drawing = (
+  operation,
+  drawing
+) => ({
+  _tag: 'CompositeOperation',
+  operation,
+  drawing,
+})
+
+export type Drawing =
+  | Clipped
+  | Outline
+  | Fill
+  | Many
+  | Translate
+  | Rotate
+  | RotateQuat
+  | Transform
+  | Scale
+  | DepthSorted
+  | Culled
+  | Lit
+  | Text
+  | Shadowed
+  | Alpha
+  | CompositeOperation
 
 // -------------------------------------------------------------------------------------
 // instances
@@ -186,16 +624,33 @@ const getFirstMonoidColor = O.getMonoid<Color>(first())
 const getFirstMonoidLineCap = O.getMonoid<LineCap>(first())
 const getFirstMonoidLineJoin = O.getMonoid<LineJoin>(first())
 const getFirstMonoidNumber = O.getMonoid<number>(first())
+const getFirstMonoidMaterial = O.getMonoid<L.Material>(first())
+const getFirstMonoidPaint = O.getMonoid<Paint>(first())
 
 export const monoidFillStyle = M.struct<FillStyle>({
   color: getFirstMonoidColor,
+  paint: getFirstMonoidPaint,
+  material: getFirstMonoidMaterial,
 })
 
 export const monoidOutlineStyle = M.struct<OutlineStyle>({
   color: getFirstMonoidColor,
+  paint: getFirstMonoidPaint,
   lineWidth: getFirstMonoidNumber,
   lineCap: getFirstMonoidLineCap,
   lineJoin: getFirstMonoidLineJoin,
+  lineDash: O.getMonoid<ReadonlyArray<number>>(first()),
+  lineDashOffset: getFirstMonoidNumber,
+  miterLimit: getFirstMonoidNumber,
+  sizing: O.getMonoid<LineSizing>(first()),
+})
+
+export const monoidTextStyle = M.struct<TextStyle>({
+  fillColor: getFirstMonoidColor,
+  outlineColor: getFirstMonoidColor,
+  textAlign: O.getMonoid<TextAlign>(first()),
+  textBaseline: O.getMonoid<TextBaseline>(first()),
+  sizing: O.getMonoid<TextSizing>(first()),
 })
 
 export const monoidDrawing: M.Monoid<Drawing> = {
@@ -214,10 +669,10 @@ export const monoidDrawing: M.Monoid<Drawing> = {
 // combinators
 // -------------------------------------------------------------------------------------
 
-export const renderShape: (shape: Shape) => Path3D = shape => {
+export const renderShape: (shape: Shape) => P.Path3D = shape => {
   switch (shape._tag) {
     case 'Composite':
-      return RA.Foldable.reduce(shape.shapes, [] as Path3D, (b, a) => b.concat(renderShape(a)))
+      return RA.Foldable.reduce(shape.shapes, [] as P.Path3D, (b, a) => b.concat(renderShape(a)))
     case 'Path':
       return pipe(
         shape.points,
@@ -226,29 +681,26 @@ export const renderShape: (shape: Shape) => Path3D = shape => {
           (head, tail) =>
             pipe(
               tail,
-              RA.map(lineTo),
-              RA.reduce(moveTo(head)([]), (a, f) => f(a)),
-              path => (shape.closed ? closePath(path).slice(0, -1) : path)
+              RA.map(P.lineTo),
+              RA.reduce(P.moveTo(head)([]), (a, f) => f(a)),
+              path => (shape.closed ? P.closePath(path).slice(0, -1) : path)
             )
         )
       )
+    case 'Mesh':
+      return RA.Foldable.reduce(faces(shape), [] as P.Path3D, (b, a) =>
+        b.concat(renderShape({ _tag: 'Path', closed: true, points: a }))
+      )
+    case 'Spline':
+      return shape.path
   }
 }
 
-const applyStyle: <A>(
-  fa: O.Option<A>,
-  f: (a: A) => C.Render<CanvasRenderingContext2D>
-) => C.Render<CanvasRenderingContext2D> = (fa, f) =>
-  pipe(
-    fa,
-    O.fold(() => IO.of, f)
-  )
-
-// Hardcoded parallel projection matrix
+// Hardcoded parallel projection matrix, Z is kept for depth sorting
 const VT: Mat.Mat = [
   [1, 0, 0, 0],
   [0, 1, 0, 0],
-  [0, 0, 0, 0],
+  [0, 0, 1, 0],
   [0, 0, 0, 1],
 ]
 
@@ -264,76 +716,788 @@ export const renderSubPath: (subPath: ReadonlyArray<V.Vec>) => C.Render<CanvasRe
   )
 )
 
-const toCoords = (shape: Shape, transform: Transform3D): ReadonlyArray<Transform3D> =>
+// the state threaded through the drawing tree while rendering
+interface State {
+  readonly projection: Transform3D
+  readonly planes: ReadonlyArray<F.Plane>
+  readonly transform: Transform3D
+  readonly culling: boolean
+  readonly lights: ReadonlyArray<L.Light>
+  // the position of the viewer, or the direction towards it with a parallel projection
+  readonly eye: V.Vec
+}
+
+// projects a camera onto the canvas clipping at its near and far planes, or falls back to
+// the parallel projection
+const toState =
+  (camera?: Camera) =>
+  (dimensions: C.CanvasDimensions): State => ({
+    projection: camera === undefined ? VT : Mat.mul(viewport(dimensions))(viewProjection(camera)),
+    planes: camera === undefined ? RA.empty : [F.near, F.far],
+    transform: Mat.identity,
+    culling: false,
+    lights: RA.empty,
+    eye: camera === undefined ? [0, 0, -1, 0] : [camera.eye[0], camera.eye[1], camera.eye[2], 1],
+  })
+
+const perspectiveDivide = (v: V.Vec): V.Vec => [v[0] / v[3], v[1] / v[3], v[2] / v[3], 1]
+
+// a subpath is closed when `closePath` has connected its last point to the first one
+const isClosed = (subPath: Transform3D): boolean => {
+  const start = RNEA.head(subPath)
+  const end = RNEA.last(subPath)
+  return subPath.length > 2 && start[0] === end[0] && start[1] === end[1] && start[2] === end[2]
+}
+
+// in screen space the viewer looks down the positive Z axis, so front faces have normals
+// pointing towards negative Z
+const isBackFace =
+  (planes: ReadonlyArray<F.Plane>) =>
+  (subPath: Transform3D): boolean =>
+    isClosed(subPath) &&
+    pipe(
+      F.clipPolygon(planes)(subPath),
+      RA.map(perspectiveDivide),
+      points => RA.isNonEmpty(points) && V.normal(points)[2] > 0
+    )
+
+// a transform with a negative determinant, a mirror or a negative scale, reverses the winding of
+// the faces
+const isMirrored = (transform: Transform3D): boolean => Mat.determinant(transform) < 0
+
+// the normal given by the winding of a face in world space, on the side it had before the
+// transforms
+const outwardNormal = (subPath: Transform3D, state: State): V.Vec3 =>
+  isMirrored(state.transform) ? V.negate(V.normal(subPath)) : V.normal(subPath)
+
+// fills and clipping regions are clipped as polygons, outlines are split into polylines
+type Rasterization = 'polygon' | 'polyline'
+
+const clip =
+  (planes: ReadonlyArray<F.Plane>, rasterization: Rasterization) =>
+  (subPath: Transform3D): ReadonlyArray<Transform3D> =>
+    RA.isEmpty(planes)
+      ? [subPath]
+      : pipe(
+          rasterization === 'polygon' ? [F.clipPolygon(planes)(subPath)] : F.clipPolyline(planes)(subPath),
+          RA.map(RNEA.fromReadonlyArray),
+          RA.compact
+        )
+
+// subpaths given as indices into a shared array of homogeneous vertices, so that every vertex
+// of a mesh is transformed only once, the vertices stay packed until the subpaths are built
+interface Geometry {
+  readonly vertices: Packed.Packed
+  readonly subPaths: ReadonlyArray<ReadonlyArray<P.Segment<number>>>
+}
+
+// curves are flattened in screen space, to within this many pixels
+const TOLERANCE = 0.25
+
+// a geometry for each subpath, the vertices are the points of its segments in order
+const fromPath3D = (path: P.Path3D): ReadonlyArray<Geometry> =>
   pipe(
-    renderShape(shape),
+    path,
+    RA.filterMap(subPath =>
+      pipe(
+        RNEA.fromReadonlyArray(pipe(subPath, RA.chain(P.controlPoints))),
+        O.map(points => {
+          let i = 0
+          return {
+            vertices: Packed.pack(pipe(points, RNEA.map(V.toHomogeneous))),
+            subPaths: [subPath.map(P.map(() => i++))],
+          }
+        })
+      )
+    )
+  )
+
+const toGeometry = (shape: Shape): ReadonlyArray<Geometry> => {
+  switch (shape._tag) {
+    case 'Composite':
+      return pipe(shape.shapes, RA.chain(toGeometry))
+    case 'Path':
+    case 'Spline':
+      return fromPath3D(renderShape(shape))
+    case 'Mesh':
+      return pipe(
+        RNEA.fromReadonlyArray(shape.vertices),
+        O.map(vertices => ({
+          vertices: Packed.pack(pipe(vertices, RNEA.map(V.toHomogeneous))),
+          subPaths: pipe(
+            shape.faces,
+            RA.filter(RA.isNonEmpty),
+            RA.map(face => RA.append(face[0])(face))
+          ),
+        })),
+        RA.fromOption
+      )
+  }
+}
+
+// the curves are flattened to within `TOLERANCE`, meant for vertices in screen space
+const toSubPaths = (geometry: Geometry): ReadonlyArray<Transform3D> =>
+  pipe(
+    geometry.subPaths,
+    RA.map(subPath => P.toPolyline(TOLERANCE)(subPath.map(P.map(i => Packed.getRow(geometry.vertices, i))))),
     RA.map(RNEA.fromReadonlyArray),
-    RA.compact,
-    RA.map(RNEA.map(RA.append(1))),
-    RA.map(Mat.mul(transform)),
-    RA.map(Mat.mul(VT))
+    RA.compact
+  )
+
+const toWorld = (shape: Shape, state: State): ReadonlyArray<Geometry> =>
+  pipe(
+    toGeometry(shape),
+    RA.map(geometry => ({
+      ...geometry,
+      vertices: Packed.transformPoints(state.transform)(geometry.vertices),
+    }))
+  )
+
+// the screen space coordinates of every subpath, in the order of the subpaths
+const projectEach =
+  (state: State, rasterization: Rasterization) =>
+  (geometry: Geometry): ReadonlyArray<ReadonlyArray<Transform3D>> =>
+    pipe(
+      toSubPaths({ ...geometry, vertices: Packed.transformPoints(state.projection)(geometry.vertices) }),
+      RA.map(subPath =>
+        state.culling && isBackFace(state.planes)(subPath) !== isMirrored(state.transform)
+          ? RA.empty
+          : pipe(clip(state.planes, rasterization)(subPath), RA.map(RNEA.map(perspectiveDivide)))
+      )
+    )
+
+const project =
+  (state: State, rasterization: Rasterization) =>
+  (geometries: ReadonlyArray<Geometry>): ReadonlyArray<Transform3D> =>
+    pipe(geometries, RA.chain(flow(projectEach(state, rasterization), RA.flatten)))
+
+const toCoords = (shape: Shape, state: State, rasterization: Rasterization): ReadonlyArray<Transform3D> =>
+  project(state, rasterization)(toWorld(shape, state))
+
+const centroid = (subPath: Transform3D): V.Vec =>
+  pipe(
+    subPath,
+    RNEA.reduce<V.Vec, V.Vec>([0, 0, 0, 0], (b, a) => V.add(a)(b)),
+    V.scale(1 / subPath.length)
+  )
+
+const applyTransform = (d: Translate | Rotate | RotateQuat | Transform | Scale, state: State): State => {
+  const t = state.transform
+  switch (d._tag) {
+    case 'Scale':
+      return { ...state, transform: Mat.mul(Mat.scale([d.scaleX, d.scaleY, d.scaleZ]))(t) }
+    case 'Rotate':
+      return {
+        ...state,
+        transform: Mat.semigroupMat.concat(
+          Mat.mul(Mat.rotateX(angle(d.rotateX)))(Mat.rotateY(angle(d.rotateY))),
+          Mat.mul(Mat.rotateZ(angle(d.rotateZ)))(t)
+        ),
+      }
+    case 'RotateQuat':
+      return { ...state, transform: Mat.mul(Q.toMat(d.rotation))(t) }
+    case 'Transform':
+      return { ...state, transform: Mat.mul(d.transform)(t) }
+    case 'Translate':
+      return { ...state, transform: Mat.mul(Mat.translate([d.translateX, d.translateY, d.translateZ]))(t) }
+  }
+}
+
+const lightState = (d: Lit, state: State): State => ({
+  ...state,
+  lights: RA.concat(pipe(d.lights, RA.map(L.transform(state.transform))))(state.lights),
+})
+
+// a node applying an effect to its subtree, without the subtree
+type Effect = Omit<Shadowed, 'drawing'> | Omit<Alpha, 'drawing'> | Omit<CompositeOperation, 'drawing'>
+
+// a fill, an outline or a text in screen space together with the clipping regions it is drawn
+// in and the effects applied to it, the font size of a text is resolved to pixels
+interface Primitive {
+  readonly drawing: Fill | Outline | Text
+  readonly coords: ReadonlyArray<Transform3D>
+  readonly clips: ReadonlyArray<ReadonlyArray<Transform3D>>
+  readonly effects: ReadonlyArray<Effect>
+}
+
+// a primitive together with the fill, outline or text it comes from and the nodes leading to it,
+// the node itself included
+interface Located extends Primitive {
+  readonly source: Fill | Outline | Text
+  readonly path: ReadonlyArray<Drawing>
+}
+
+// the length in pixels of a segment going from `anchor`, a point in world space, across the line
+// of sight
+const projectedLength = (length: number, anchor: V.Vec, state: State): number => {
+  const e = state.eye
+  const sight = V.sub(V.scale(e[3])([anchor[0], anchor[1], anchor[2]]))([e[0], e[1], e[2]])
+  const axes: ReadonlyArray<V.Vec> = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ]
+  return pipe(
+    axes,
+    RA.filterMap(axis => V.normalize(V.cross(axis)(sight))),
+    RA.head,
+    O.map(u => V.add(V.scale(length)(u))([anchor[0], anchor[1], anchor[2]])),
+    O.map(p => Mat.mul(state.projection)([anchor, [p[0], p[1], p[2], 1]])),
+    O.filter(([a, b]) => a[3] > 0 && b[3] > 0),
+    O.map(([a, b]) => {
+      const pa = perspectiveDivide(a)
+      const pb = perspectiveDivide(b)
+      return Math.sqrt(Math.pow(pb[0] - pa[0], 2) + Math.pow(pb[1] - pa[1], 2))
+    }),
+    O.getOrElse(() => length)
+  )
+}
+
+const toWorldPoint = (p: V.Vec, state: State): V.Vec => Mat.mul(state.transform)([[p[0], p[1], p[2], 1]])[0]
+
+const toScreenPoint = (p: V.Vec, state: State): V.Vec => perspectiveDivide(Mat.mul(state.projection)([p])[0])
+
+// the mean length of the axes once transformed
+const scaleOf = (t: Transform3D): number =>
+  pipe(
+    Mat.mul(t)([
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+    ]),
+    RA.reduce(0, (sum, axis) => sum + Math.sqrt(V.dot(axis)(axis)) / 3)
+  )
+
+// moves the points of a gradient to screen space, the radii of a radial gradient are scaled by
+// the transform and projected at their centers
+const projectPaint =
+  (state: State) =>
+  (paint: Paint): Paint => {
+    switch (paint._tag) {
+      case 'LinearGradient':
+        return {
+          ...paint,
+          start: toScreenPoint(toWorldPoint(paint.start, state), state),
+          end: toScreenPoint(toWorldPoint(paint.end, state), state),
+        }
+      case 'RadialGradient': {
+        const start = toWorldPoint(paint.start, state)
+        const end = toWorldPoint(paint.end, state)
+        const scale = scaleOf(state.transform)
+        return {
+          ...paint,
+          start: toScreenPoint(start, state),
+          startRadius: projectedLength(paint.startRadius * scale, start, state),
+          end: toScreenPoint(end, state),
+          endRadius: projectedLength(paint.endRadius * scale, end, state),
+        }
+      }
+      case 'Pattern':
+        return paint
+    }
+  }
+
+// the lengths of a depth scaled line are scaled by the transform and projected at the centroid of
+// the outline, the width defaults to one unit like on the canvas
+const toScreenLine = (style: OutlineStyle, world: ReadonlyArray<Geometry>, state: State): OutlineStyle =>
+  pipe(
+    style.sizing,
+    O.filter(sizing => sizing === 'depthScaled'),
+    O.chain(() =>
+      RNEA.fromReadonlyArray(
+        pipe(
+          world,
+          RA.chain(geometry => Packed.unpack(geometry.vertices))
+        )
+      )
+    ),
+    O.fold(
+      () => style,
+      vertices => {
+        const k = projectedLength(scaleOf(state.transform), centroid(vertices), state)
+        const toPixels = (length: number) => length * k
+        return {
+          ...style,
+          lineWidth: pipe(
+            style.lineWidth,
+            O.getOrElse(() => 1),
+            toPixels,
+            O.some
+          ),
+          lineDash: pipe(style.lineDash, O.map(RA.map(toPixels))),
+          lineDashOffset: pipe(style.lineDashOffset, O.map(toPixels)),
+        }
+      }
+    )
+  )
+
+// a text is skipped when its anchor is clipped away
+const toTextPrimitives = (d: Text, state: State, clips: Primitive['clips']): ReadonlyArray<Primitive> => {
+  const anchor = toWorldPoint(d.position, state)
+  const screen = Mat.mul(state.projection)([anchor])[0]
+  if (!state.planes.every(plane => V.dot(plane)(screen) >= 0)) {
+    return RA.empty
+  }
+  const size = pipe(
+    d.style.sizing,
+    O.filter(sizing => sizing === 'depthScaled'),
+    O.fold(
+      () => d.font.size,
+      () => projectedLength(d.font.size, anchor, state)
+    )
+  )
+  return [
+    {
+      drawing: { ...d, font: { ...d.font, size } },
+      coords: [[perspectiveDivide(screen)]],
+      clips,
+      effects: RA.empty,
+    },
+  ]
+}
+
+// a lit fill is split into faces, each of them filled with its own flat shaded color
+const toPathPrimitives = (
+  d: Fill | Outline,
+  state: State,
+  clips: Primitive['clips']
+): ReadonlyArray<Primitive> => {
+  const world = toWorld(d.shape, state)
+  const paint = pipe(d.style.paint, O.map(projectPaint(state)))
+  if (d._tag === 'Outline') {
+    return [
+      {
+        drawing: { ...d, style: toScreenLine({ ...d.style, paint }, world, state) },
+        coords: project(state, 'polyline')(world),
+        clips,
+        effects: RA.empty,
+      },
+    ]
+  }
+  return pipe(
+    O.Do,
+    O.bind('color', () => d.style.color),
+    O.bind('material', () => d.style.material),
+    O.filter(() => RA.isNonEmpty(state.lights)),
+    O.fold(
+      () => [
+        {
+          drawing: { ...d, style: { ...d.style, paint } },
+          coords: project(state, 'polygon')(world),
+          clips,
+          effects: RA.empty,
+        },
+      ],
+      ({ color, material }) =>
+        pipe(
+          world,
+          RA.chain(geometry => RA.zip(toSubPaths(geometry), projectEach(state, 'polygon')(geometry))),
+          RA.map(([subPath, coords]) => ({
+            drawing: {
+              ...d,
+              style: {
+                ...d.style,
+                paint,
+                color: pipe(
+                  color,
+                  L.shade(
+                    L.illuminate(
+                      state.lights,
+                      material,
+                      state.eye
+                    )(centroid(subPath), outwardNormal(subPath, state))
+                  ),
+                  O.some
+                ),
+              },
+            },
+            coords,
+            clips,
+            effects: RA.empty,
+          }))
+        )
+    )
   )
+}
+
+// the fills and outlines culled or clipped away entirely are dropped, so that they issue no draw
+// calls at all
+const toPrimitives = (
+  d: Fill | Outline | Text,
+  state: State,
+  clips: Primitive['clips']
+): ReadonlyArray<Primitive> =>
+  d._tag === 'Text'
+    ? toTextPrimitives(d, state, clips)
+    : pipe(
+        toPathPrimitives(d, state, clips),
+        RA.filter(primitive => RA.isNonEmpty(primitive.coords))
+      )
 
-export const render: (drawing: Drawing) => C.Render<CanvasRenderingContext2D> = drawing => {
-  const go: (transform: Transform3D) => (drawing: Drawing) => C.Render<CanvasRenderingContext2D> = t => d => {
+// the primitives in tree order, the depth sorted subtrees are sorted back to front when
+// `sorting` is set, the paths start at the node `path` leads to
+const flatten =
+  (state: State, clips: Primitive['clips'], path: ReadonlyArray<Drawing>, sorting: boolean) =>
+  (d: Drawing): ReadonlyArray<Located> => {
+    const inner = RA.append(d)(path)
     switch (d._tag) {
       case 'Many':
-        return pipe(
-          traverseReaderIO(d.drawings, go(t)),
-          RIO.chain(() => RIO.ask())
-        )
+        return pipe(d.drawings, RA.chain(flatten(state, clips, inner, sorting)))
       case 'Scale':
-        return go(Mat.mul(Mat.scale([d.scaleX, d.scaleY, d.scaleZ]))(t))(d.drawing)
       case 'Rotate':
-        return go(
-          Mat.semigroupMat.concat(
-            Mat.mul(Mat.rotateX(angle(d.rotateX)))(Mat.rotateY(angle(d.rotateY))),
-            Mat.mul(Mat.rotateZ(angle(d.rotateZ)))(t)
-          )
-        )(d.drawing)
+      case 'RotateQuat':
+      case 'Transform':
       case 'Translate':
-        return go(Mat.mul(Mat.translate([d.translateX, d.translateY, d.translateZ]))(t))(d.drawing)
-      case 'Outline':
-        return C.withContext(
-          pipe(
-            applyStyle(d.style.color, flow(toCss, C.setStrokeStyle)),
-            RIO.chain(() => applyStyle(d.style.lineWidth, C.setLineWidth)),
-            RIO.chain(() => applyStyle(d.style.lineCap, C.setLineCap)),
-            RIO.chain(() => applyStyle(d.style.lineJoin, C.setLineJoin)),
-            RIO.chain(() =>
-              pipe(
-                C.beginPath,
-                RIO.chain(() => traverseReaderIO(toCoords(d.shape, t), renderSubPath)),
-                RIO.chainFirst(() => C.stroke())
-              )
-            ),
-            RIO.chain(() => RIO.ask())
-          )
+        return flatten(applyTransform(d, state), clips, inner, sorting)(d.drawing)
+      case 'DepthSorted': {
+        const primitives = flatten(state, clips, inner, false)(d.drawing)
+        return sorting
+          ? pipe(
+              primitives,
+              backToFront(primitive => RA.flatten(primitive.coords))
+            )
+          : primitives
+      }
+      case 'Culled':
+        return flatten({ ...state, culling: true }, clips, inner, sorting)(d.drawing)
+      case 'Clipped':
+        return flatten(
+          state,
+          RA.append(toCoords(d.shape, { ...state, culling: false }, 'polygon'))(clips),
+          inner,
+          sorting
+        )(d.drawing)
+      case 'Lit':
+        return flatten(lightState(d, state), clips, inner, sorting)(d.drawing)
+      case 'Shadowed':
+      case 'Alpha':
+      case 'CompositeOperation':
+        return pipe(
+          flatten(state, clips, inner, sorting)(d.drawing),
+          RA.map(primitive => ({ ...primitive, effects: RA.prepend<Effect>(d)(primitive.effects) }))
         )
+      case 'Outline':
       case 'Fill':
-        return C.withContext(
-          pipe(
-            applyStyle(d.style.color, flow(toCss, C.setFillStyle)),
-            RIO.chain(() =>
-              pipe(
-                C.beginPath,
-                RIO.chain(() => traverseReaderIO(toCoords(d.shape, t), renderSubPath)),
-                RIO.chainFirst(() => C.fill())
-              )
-            ),
-            RIO.chain(() => RIO.ask())
-          )
+      case 'Text':
+        return pipe(
+          toPrimitives(d, state, clips),
+          RA.map(primitive => ({ ...primitive, source: d, path: inner }))
         )
-      case 'Clipped':
-        return C.withContext(
-          pipe(
-            C.beginPath,
-            RIO.chain(() => traverseReaderIO(toCoords(d.shape, t), renderSubPath)),
-            RIO.chain(() => C.clip()),
-            RIO.chain(() => go(t)(d.drawing))
-          )
+    }
+  }
+
+// the operations that turn the fills, outlines, texts and clipping regions of a drawing, given
+// in screen space, into an output of type `A`, the points of the gradients are in screen space
+// too and the font size of a text is given in pixels, the effects apply to the whole of their
+// output
+export interface Interpreter<A> {
+  readonly many: (as: ReadonlyArray<A>) => A
+  readonly clipped: (coords: ReadonlyArray<Transform3D>, a: A) => A
+  readonly withShadow: (shadow: Shadow, a: A) => A
+  readonly withAlpha: (alpha: number, a: A) => A
+  readonly withCompositeOperation: (operation: C.GlobalCompositeOperation, a: A) => A
+  readonly fill: (coords: ReadonlyArray<Transform3D>, style: FillStyle) => A
+  readonly outline: (coords: ReadonlyArray<Transform3D>, style: OutlineStyle) => A
+  readonly text: (position: V.Vec, text: string, font: Font, style: TextStyle) => A
+}
+
+export const interpret =
+  <A>(I: Interpreter<A>) =>
+  (drawing: Drawing, dimensions: C.CanvasDimensions, camera?: Camera): A => {
+    const draw = ({ drawing, coords }: Primitive): A => {
+      switch (drawing._tag) {
+        case 'Fill':
+          return I.fill(coords, drawing.style)
+        case 'Outline':
+          return I.outline(coords, drawing.style)
+        case 'Text':
+          return I.text(coords[0][0], drawing.text, drawing.font, drawing.style)
+      }
+    }
+    const applyEffect = (effect: Effect, a: A): A => {
+      switch (effect._tag) {
+        case 'Shadowed':
+          return I.withShadow(effect.shadow, a)
+        case 'Alpha':
+          return I.withAlpha(effect.alpha, a)
+        case 'CompositeOperation':
+          return I.withCompositeOperation(effect.operation, a)
+      }
+    }
+    const paint = (primitive: Primitive): A =>
+      pipe(
+        primitive.clips,
+        RA.reduceRight(pipe(primitive.effects, RA.reduceRight(draw(primitive), applyEffect)), (clip, a) =>
+          I.clipped(clip, a)
         )
+      )
+    const paintAll = (primitives: ReadonlyArray<Primitive>): A =>
+      primitives.length === 1 ? paint(primitives[0]) : I.many(primitives.map(paint))
+    const go: (state: State) => (drawing: Drawing) => A = s => d => {
+      switch (d._tag) {
+        case 'Many':
+          return I.many(d.drawings.map(go(s)))
+        case 'Scale':
+        case 'Rotate':
+        case 'RotateQuat':
+        case 'Transform':
+        case 'Translate':
+          return go(applyTransform(d, s))(d.drawing)
+        case 'DepthSorted':
+          return I.many(flatten(s, RA.empty, RA.empty, true)(d).map(paint))
+        case 'Culled':
+          return go({ ...s, culling: true })(d.drawing)
+        case 'Lit':
+          return go(lightState(d, s))(d.drawing)
+        case 'Shadowed':
+        case 'Alpha':
+        case 'CompositeOperation':
+          return applyEffect(d, go(s)(d.drawing))
+        case 'Outline':
+        case 'Fill':
+        case 'Text':
+          return paintAll(toPrimitives(d, s, RA.empty))
+        case 'Clipped':
+          return I.clipped(toCoords(d.shape, { ...s, culling: false }, 'polygon'), go(s)(d.drawing))
+      }
     }
+    return go(toState(camera)(dimensions))(drawing)
   }
-  return go(Mat.identity)(drawing)
+
+const toSubPaths2D = (coords: ReadonlyArray<Transform3D>): ReadonlyArray<DL.SubPath> =>
+  coords.map(subPath => subPath.map((p): DL.Point2D => [p[0], p[1]]))
+
+// the value of the CSS `font` property, the size is rounded to hundredths of a pixel
+const fontCss = (font: Font): string => `${Math.round(font.size * 100) / 100}px ${font.fontFamily}`
+
+const toPaintStyle = (paint: Paint): DL.Style => {
+  const stops = paint._tag === 'Pattern' ? [] : paint.stops.map(s => [s.offset, toCss(s.color)] as const)
+  switch (paint._tag) {
+    case 'LinearGradient':
+      return {
+        _tag: 'LinearGradient',
+        start: [paint.start[0], paint.start[1]],
+        end: [paint.end[0], paint.end[1]],
+        stops,
+      }
+    case 'RadialGradient':
+      return {
+        _tag: 'RadialGradient',
+        start: [paint.start[0], paint.start[1]],
+        startRadius: paint.startRadius,
+        end: [paint.end[0], paint.end[1]],
+        endRadius: paint.endRadius,
+        stops,
+      }
+    case 'Pattern':
+      return paint
+  }
+}
+
+// the paint of a style takes precedence over its color
+const toStyle = (paint: O.Option<Paint>, color: O.Option<Color>): O.Option<DL.Style> =>
+  pipe(
+    paint,
+    O.map(toPaintStyle),
+    O.alt(() =>
+      pipe(
+        color,
+        O.map((c): DL.Style => toCss(c))
+      )
+    )
+  )
+
+const displayListInterpreter: Interpreter<DL.DisplayList> = {
+  many: RA.flatten,
+  clipped: (coords, list) => [DL.pushClip(toSubPaths2D(coords)), ...list, DL.popClip],
+  withShadow: (shadow, list) => [
+    DL.pushEffect({
+      _tag: 'Shadow',
+      color: toCss(shadow.color),
+      blur: shadow.blur,
+      offsetX: shadow.offsetX,
+      offsetY: shadow.offsetY,
+    }),
+    ...list,
+    DL.popEffect,
+  ],
+  withAlpha: (alpha, list) => [DL.pushEffect({ _tag: 'Alpha', alpha }), ...list, DL.popEffect],
+  withCompositeOperation: (operation, list) => [
+    DL.pushEffect({ _tag: 'CompositeOperation', operation }),
+    ...list,
+    DL.popEffect,
+  ],
+  fill: (coords, style) => [
+    DL.fillPath(toSubPaths2D(coords), { fillStyle: toStyle(style.paint, style.color) }),
+  ],
+  outline: (coords, style) => [
+    DL.strokePath(toSubPaths2D(coords), {
+      strokeStyle: toStyle(style.paint, style.color),
+      lineWidth: style.lineWidth,
+      lineCap: style.lineCap,
+      lineJoin: style.lineJoin,
+      lineDash: style.lineDash,
+      lineDashOffset: style.lineDashOffset,
+      miterLimit: style.miterLimit,
+    }),
+  ],
+  text: (position, text, font, style) => [
+    DL.drawText([position[0], position[1]], text, {
+      font: fontCss(font),
+      fillStyle: pipe(style.fillColor, O.map(toCss)),
+      strokeStyle: pipe(style.outlineColor, O.map(toCss)),
+      textAlign: style.textAlign,
+      textBaseline: style.textBaseline,
+    }),
+  ],
 }
+
+// the commands that draw a drawing onto a canvas of the given dimensions
+export const compile: (drawing: Drawing, dimensions: C.CanvasDimensions, camera?: Camera) => DL.DisplayList =
+  interpret(displayListInterpreter)
+
+export const render: (drawing: Drawing, camera?: Camera) => C.Render<CanvasRenderingContext2D> = (
+  drawing,
+  camera
+) =>
+  pipe(
+    RIO.asks((ctx: CanvasRenderingContext2D) => ({ width: ctx.canvas.width, height: ctx.canvas.height })),
+    RIO.chain(dimensions => DL.replay(compile(drawing, dimensions, camera)))
+  )
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// a fill or an outline under a point of the canvas, `path` holds the nodes from the root of the
+// drawing down to it and `depth` is the screen space Z of the point on it, growing away from the
+// viewer
+export interface Hit {
+  readonly drawing: Fill | Outline
+  readonly path: ReadonlyArray<Drawing>
+  readonly depth: number
+}
+
+// the number of times the subpath, taken for closed, winds counter-clockwise on screen around the
+// point
+const winding = (p: DL.Point2D, subPath: Transform3D): number => {
+  let w = 0
+  for (let i = 0; i < subPath.length; i++) {
+    const a = subPath[i]
+    const b = subPath[(i + 1) % subPath.length]
+    const side = (b[0] - a[0]) * (p[1] - a[1]) - (p[0] - a[0]) * (b[1] - a[1])
+    if (a[1] <= p[1] && b[1] > p[1] && side > 0) {
+      w++
+    } else if (a[1] > p[1] && b[1] <= p[1] && side < 0) {
+      w--
+    }
+  }
+  return w
+}
+
+// the non-zero rule, the default fill rule of the canvas
+const isInside = (p: DL.Point2D, coords: ReadonlyArray<Transform3D>): boolean =>
+  coords.reduce((w, subPath) => w + winding(p, subPath), 0) !== 0
+
+// the depth of the plane of the subpath at the point
+const planeDepth =
+  (p: DL.Point2D) =>
+  (subPath: Transform3D): number => {
+    const n = V.normal(subPath)
+    const c = centroid(subPath)
+    return n[2] === 0 ? c[2] : c[2] - (n[0] * (p[0] - c[0]) + n[1] * (p[1] - c[1])) / n[2]
+  }
+
+// the nearest of the subpaths around the point
+const fillDepth = (p: DL.Point2D, coords: ReadonlyArray<Transform3D>): O.Option<number> =>
+  pipe(
+    coords,
+    RA.filter(subPath => winding(p, subPath) !== 0),
+    RNEA.fromReadonlyArray,
+    O.filter(() => isInside(p, coords)),
+    O.map(subPaths => Math.min(...subPaths.map(planeDepth(p))))
+  )
+
+// the nearest of the segments within half the line width of the point, the caps and the joins are
+// taken for round
+const outlineDepth = (
+  p: DL.Point2D,
+  coords: ReadonlyArray<Transform3D>,
+  lineWidth: number
+): O.Option<number> => {
+  let depth = Infinity
+  coords.forEach(subPath => {
+    for (let i = 0; i < subPath.length - 1; i++) {
+      const a = subPath[i]
+      const b = subPath[i + 1]
+      const dx = b[0] - a[0]
+      const dy = b[1] - a[1]
+      const length = dx * dx + dy * dy
+      const t =
+        length === 0 ? 0 : Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / length))
+      const x = a[0] + t * dx - p[0]
+      const y = a[1] + t * dy - p[1]
+      if (Math.sqrt(x * x + y * y) <= lineWidth / 2) {
+        depth = Math.min(depth, a[2] + t * (b[2] - a[2]))
+      }
+    }
+  })
+  return depth === Infinity ? O.none : O.some(depth)
+}
+
+// the width in pixels of the lines of a primitive, one pixel by default like on the canvas
+const lineWidthOf = (d: Fill | Outline | Text): number =>
+  d._tag === 'Outline'
+    ? pipe(
+        d.style.lineWidth,
+        O.getOrElse(() => 1)
+      )
+    : 0
+
+const hitTest =
+  (p: DL.Point2D) =>
+  ({ drawing, source, path, coords, clips }: Located): O.Option<Hit> => {
+    if (!clips.every(clip => isInside(p, clip))) {
+      return O.none
+    }
+    switch (source._tag) {
+      case 'Fill':
+        return pipe(
+          fillDepth(p, coords),
+          O.map(depth => ({ drawing: source, path, depth }))
+        )
+      case 'Outline':
+        return pipe(
+          outlineDepth(p, coords, lineWidthOf(drawing)),
+          O.map(depth => ({ drawing: source, path, depth }))
+        )
+      case 'Text':
+        return O.none
+    }
+  }
+
+// the fills and outlines painted at the point `[x, y]` of a canvas of the given dimensions,
+// topmost first, computed like `interpret` paints them so that the clipping regions, the culling
+// and the line widths are taken into account, the texts and the effects are not
+export const pickAll: (
+  x: number,
+  y: number,
+  drawing: Drawing,
+  dimensions: C.CanvasDimensions,
+  camera?: Camera
+) => ReadonlyArray<Hit> = (x, y, drawing, dimensions, camera) =>
+  pipe(
+    flatten(toState(camera)(dimensions), RA.empty, RA.empty, true)(drawing),
+    RA.reverse,
+    RA.filterMap(hitTest([x, y]))
+  )
+
+// the topmost fill or outline painted at the point `[x, y]`
+export const pick: (
+  x: number,
+  y: number,
+  drawing: Drawing,
+  dimensions: C.CanvasDimensions,
+  camera?: Camera
+) => O.Option<Hit> = (x, y, drawing, dimensions, camera) =>
+  RA.head(pickAll(x, y, drawing, dimensions, camera))
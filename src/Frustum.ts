@@ -0,0 +1,97 @@
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { Vec, dot } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+// a homogeneous point `p` is inside of the plane when `dot(plane)(p) >= 0`
+export type Plane = Vec
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+// -w <= z in clip space
+export const near: Plane = [0, 0, 1, 1]
+
+// z <= w in clip space
+export const far: Plane = [0, 0, -1, 1]
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const lerp = (a: Vec, b: Vec, t: number): Vec => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+  a[3] + (b[3] - a[3]) * t,
+]
+
+const clipPolygonAgainst = (points: ReadonlyArray<Vec>, plane: Plane): ReadonlyArray<Vec> =>
+  pipe(
+    points,
+    RA.chainWithIndex((i, a) => {
+      const b = points[(i + 1) % points.length]
+      const da = dot(plane)(a)
+      const db = dot(plane)(b)
+      const crossing: ReadonlyArray<Vec> = da >= 0 !== db >= 0 ? [lerp(a, b, da / (da - db))] : []
+      return da >= 0 ? RA.prepend(a)(crossing) : crossing
+    })
+  )
+
+// Sutherland–Hodgman, the result is empty when the polygon lies completely outside
+export const clipPolygon =
+  (planes: ReadonlyArray<Plane>) =>
+  (points: ReadonlyArray<Vec>): ReadonlyArray<Vec> =>
+    pipe(planes, RA.reduce(points, clipPolygonAgainst))
+
+// returns the parameters of the visible part of the segment from `a` to `b`, if any
+const clipSegment = (planes: ReadonlyArray<Plane>, a: Vec, b: Vec): readonly [number, number] | undefined => {
+  let t0 = 0
+  let t1 = 1
+  for (const plane of planes) {
+    const da = dot(plane)(a)
+    const db = dot(plane)(b)
+    if (da < 0 && db < 0) {
+      return undefined
+    }
+    if (da < 0) {
+      t0 = Math.max(t0, da / (da - db))
+    } else if (db < 0) {
+      t1 = Math.min(t1, da / (da - db))
+    }
+  }
+  return t0 <= t1 ? [t0, t1] : undefined
+}
+
+// splits the polyline where it leaves the clipping volume
+export const clipPolyline =
+  (planes: ReadonlyArray<Plane>) =>
+  (points: ReadonlyArray<Vec>): ReadonlyArray<ReadonlyArray<Vec>> => {
+    if (points.length < 2) {
+      return points.length === 1 && planes.every(plane => dot(plane)(points[0]) >= 0) ? [points] : []
+    }
+    const polylines: Array<Array<Vec>> = []
+    let current: Array<Vec> | undefined
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = points[i]
+      const b = points[i + 1]
+      const ts = clipSegment(planes, a, b)
+      if (ts === undefined) {
+        current = undefined
+        continue
+      }
+      if (current === undefined || ts[0] > 0) {
+        current = [ts[0] > 0 ? lerp(a, b, ts[0]) : a]
+        polylines.push(current)
+      }
+      current.push(ts[1] < 1 ? lerp(a, b, ts[1]) : b)
+      if (ts[1] < 1) {
+        current = undefined
+      }
+    }
+    return polylines
+  }
@@ -0,0 +1,195 @@
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import * as Mat from './Mat'
+import { Color, hex, hsla } from './Color'
+import { Vec, Vec3, add, dot, normalize, scale, sub } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+export interface Ambient {
+  readonly _tag: 'Ambient'
+  readonly intensity: number
+}
+
+export interface Directional {
+  readonly _tag: 'Directional'
+  // the direction in which the light travels
+  readonly direction: Vec3
+  readonly intensity: number
+}
+
+export interface Point {
+  readonly _tag: 'Point'
+  readonly position: Vec3
+  readonly intensity: number
+}
+
+export type Light = Ambient | Directional | Point
+
+export interface Material {
+  readonly diffuse: number
+  readonly specular: number
+  readonly shininess: number
+}
+
+// the amount of light reflected by a surface, diffuse light scales the color of the surface
+// while specular light blends it towards white
+export interface Intensity {
+  readonly diffuse: number
+  readonly specular: number
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+export const ambient: (intensity: number) => Light = intensity => ({ _tag: 'Ambient', intensity })
+
+export const directional: (direction: Vec3, intensity: number) => Light = (direction, intensity) => ({
+  _tag: 'Directional',
+  direction,
+  intensity,
+})
+
+export const point: (position: Vec3, intensity: number) => Light = (position, intensity) => ({
+  _tag: 'Point',
+  position,
+  intensity,
+})
+
+export const material: (diffuse: number, specular: number, shininess: number) => Material = (
+  diffuse,
+  specular,
+  shininess
+) => ({
+  diffuse,
+  specular,
+  shininess,
+})
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+export const transform =
+  (m: Mat.Mat) =>
+  (light: Light): Light => {
+    switch (light._tag) {
+      case 'Ambient':
+        return light
+      case 'Directional':
+        return {
+          ...light,
+          direction: Mat.transformDirection(m)(light.direction),
+        }
+      case 'Point':
+        return {
+          ...light,
+          position: Mat.transformPoint(m)(light.position),
+        }
+    }
+  }
+
+const xyz = (v: Vec): Vec => [v[0], v[1], v[2]]
+
+const zero: Intensity = { diffuse: 0, specular: 0 }
+
+// adds the reflection of a light arriving from direction `l` to a surface with normal `n`
+// seen from direction `v`
+const reflect =
+  (material: Material, n: Vec, v: Vec) =>
+  (i: Intensity, l: O.Option<Vec>, intensity: number): Intensity =>
+    pipe(
+      l,
+      O.filter(l => dot(l)(n) > 0),
+      O.fold(
+        () => i,
+        l => ({
+          diffuse: i.diffuse + material.diffuse * dot(l)(n) * intensity,
+          specular:
+            i.specular +
+            pipe(
+              normalize(add(v)(l)),
+              O.fold(
+                () => 0,
+                h => material.specular * Math.pow(Math.max(0, dot(h)(n)), material.shininess) * intensity
+              )
+            ),
+        })
+      )
+    )
+
+// Lambertian diffuse and Blinn-Phong specular reflection at `center`, `eye` is a homogeneous
+// point, or a direction towards the viewer when its W coordinate is zero
+export const illuminate =
+  (lights: ReadonlyArray<Light>, material: Material, eye: Vec) =>
+  (center: Vec, normal: Vec): Intensity =>
+    pipe(
+      O.Do,
+      O.bind('v', () => normalize(sub(scale(eye[3])(xyz(center)))(xyz(eye)))),
+      O.bind('n', ({ v }) =>
+        pipe(
+          normalize(xyz(normal)),
+          // light both sides of a face, as seen from the viewer
+          O.map(n => (dot(v)(n) < 0 ? scale(-1)(n) : n))
+        )
+      ),
+      O.map(({ v, n }) =>
+        pipe(
+          lights,
+          RA.reduce(zero, (i, light) => {
+            switch (light._tag) {
+              case 'Ambient':
+                return { ...i, diffuse: i.diffuse + light.intensity }
+              case 'Directional':
+                return reflect(material, n, v)(i, normalize(scale(-1)(light.direction)), light.intensity)
+              case 'Point':
+                return reflect(material, n, v)(
+                  i,
+                  normalize(sub(xyz(center))(light.position)),
+                  light.intensity
+                )
+            }
+          })
+        )
+      ),
+      O.getOrElse(() => zero)
+    )
+
+const clamp = (n: number): number => Math.min(1, Math.max(0, n))
+
+const mix = (c: number, i: Intensity): number => {
+  const d = clamp(c * i.diffuse)
+  return clamp(d + (1 - d) * i.specular)
+}
+
+const toHex = (n: number): string => ('0' + Math.round(n * 255).toString(16)).slice(-2)
+
+export const shade =
+  (i: Intensity) =>
+  (color: Color): Color => {
+    switch (color._tag) {
+      case 'Hsla':
+        return hsla(color.h, color.s, mix(color.l, i), color.a)
+      // the short forms are expanded and the alpha digits are kept as they are, colors that are
+      // not hexadecimal are returned unshaded
+      case 'Hex': {
+        const value = color.value.replace(/^#/, '')
+        const digits = value.length === 3 || value.length === 4 ? value.replace(/(.)/g, '$1$1') : value
+        if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(digits)) {
+          return color
+        }
+        return hex(
+          '#' +
+            [0, 2, 4]
+              .map(k => parseInt(digits.slice(k, k + 2), 16) / 255)
+              .map(c => toHex(mix(c, i)))
+              .join('') +
+            digits.slice(6)
+        )
+      }
+    }
+  }
@@ -1,8 +1,9 @@
+import * as O from 'fp-ts/Option'
 import * as RNEA from 'fp-ts/ReadonlyNonEmptyArray'
 import { apply, flow, pipe } from 'fp-ts/function'
 import { Monoid, concatAll as concatAll_ } from 'fp-ts/lib/Monoid'
 import { Semigroup } from 'fp-ts/lib/Semigroup'
-import { Vec, at, dot } from './Vec'
+import { Vec, Vec3, Vec4, at, cross, dot, sub } from './Vec'
 
 const map = RNEA.Functor.map
 
@@ -10,60 +11,148 @@ const sin = (deg: number) => Math.sin((deg * Math.PI) / 180.0)
 
 const cos = (deg: number) => Math.cos((deg * Math.PI) / 180.0)
 
+const tan = (deg: number) => Math.tan((deg * Math.PI) / 180.0)
+
+const normalize = (v: Vec): Vec => {
+  const len = Math.sqrt(dot(v)(v))
+  return len === 0 ? v : [v[0] / len, v[1] / len, v[2] / len]
+}
+
 // -------------------------------------------------------------------------------------
 // model
 // -------------------------------------------------------------------------------------
 
+// of any size, the 4x4 matrices of the transforms are checked by the compiler
 export type Mat = RNEA.ReadonlyNonEmptyArray<Vec>
 
+export type Mat4 = readonly [Vec4, Vec4, Vec4, Vec4]
+
 // -------------------------------------------------------------------------------------
 // constructors
 // -------------------------------------------------------------------------------------
 
 export const transpose = (fa: Mat): Mat => pipe(RNEA.head(fa), RNEA.mapWithIndex(flow(row, apply(fa))))
 
-export const translate = (v: Vec): Mat => [
+// `None` unless there are exactly four rows of four columns
+export const mat4 = (m: ReadonlyArray<ReadonlyArray<number>>): O.Option<Mat4> =>
+  m.length === 4 && m.every(r => r.length === 4)
+    ? O.some([
+        [m[0][0], m[0][1], m[0][2], m[0][3]],
+        [m[1][0], m[1][1], m[1][2], m[1][3]],
+        [m[2][0], m[2][1], m[2][2], m[2][3]],
+        [m[3][0], m[3][1], m[3][2], m[3][3]],
+      ])
+    : O.none
+
+export const translate = (v: Vec3): Mat4 => [
   [1, 0, 0, 0],
   [0, 1, 0, 0],
   [0, 0, 1, 0],
   [v[0], v[1], v[2], 1],
 ]
 
-export const scale = (v: Vec): Mat => [
+export const scale = (v: Vec3): Mat4 => [
   [v[0], 0, 0, 0],
   [0, v[1], 0, 0],
   [0, 0, v[2], 0],
   [0, 0, 0, 1],
 ]
 
-export const rotateX = (angle: number): Mat => [
+export const rotateX = (angle: number): Mat4 => [
   [1, 0, 0, 0],
   [0, cos(angle), sin(angle), 0],
   [0, -sin(angle), cos(angle), 0],
   [0, 0, 0, 1],
 ]
 
-export const rotateY = (angle: number): Mat => [
+export const rotateY = (angle: number): Mat4 => [
   [cos(angle), 0, -sin(angle), 0],
   [0, 1, 0, 0],
   [sin(angle), 0, cos(angle), 0],
   [0, 0, 0, 1],
 ]
 
-export const rotateZ = (angle: number): Mat => [
+export const rotateZ = (angle: number): Mat4 => [
   [cos(angle), sin(angle), 0, 0],
   [-sin(angle), cos(angle), 0, 0],
-  [0, 0, 0, 0],
+  [0, 0, 1, 0],
   [0, 0, 0, 1],
 ]
 
-export const axonometric = (phi: number, theta: number): Mat => [
+export const axonometric = (phi: number, theta: number): Mat4 => [
   [cos(phi), sin(phi) * sin(theta), -sin(phi) * cos(theta), 0],
   [0, cos(theta), sin(theta), 0],
   [sin(phi), -cos(phi) * sin(theta), cos(phi) * cos(theta), 0],
   [0, 0, 0, 1],
 ]
 
+// mirrors across the plane through the origin perpendicular to `normal`, which need not be a
+// unit vector, a zero normal gives the identity
+export const reflect = (normal: Vec3): Mat4 => {
+  const [x, y, z] = normalize(normal)
+  return [
+    [1 - 2 * x * x, -2 * x * y, -2 * x * z, 0],
+    [-2 * y * x, 1 - 2 * y * y, -2 * y * z, 0],
+    [-2 * z * x, -2 * z * y, 1 - 2 * z * z, 0],
+    [0, 0, 0, 1],
+  ]
+}
+
+// right-handed view matrix, the camera looks down the negative Z axis
+export const lookAt = (eye: Vec3, target: Vec3, up: Vec3): Mat4 => {
+  const z = normalize(sub(target)(eye))
+  const x = normalize(cross(z)(up))
+  const y = cross(x)(z)
+  return [
+    [x[0], y[0], z[0], 0],
+    [x[1], y[1], z[1], 0],
+    [x[2], y[2], z[2], 0],
+    [-dot(eye)(x), -dot(eye)(y), -dot(eye)(z), 1],
+  ]
+}
+
+// maps the view frustum to clip space, where visible points satisfy -w <= x, y, z <= w
+export const perspective = (fovy: number, aspect: number, near: number, far: number): Mat4 => {
+  const f = 1 / tan(fovy / 2)
+  return [
+    [f / aspect, 0, 0, 0],
+    [0, f, 0, 0],
+    [0, 0, (far + near) / (near - far), -1],
+    [0, 0, (2 * far * near) / (near - far), 0],
+  ]
+}
+
+// maps the box between the planes to clip space, without perspective
+export const orthographic = (
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number
+): Mat4 => [
+  [2 / (right - left), 0, 0, 0],
+  [0, 2 / (top - bottom), 0, 0],
+  [0, 0, 2 / (near - far), 0],
+  [(right + left) / (left - right), (top + bottom) / (bottom - top), (far + near) / (near - far), 1],
+]
+
+// like `perspective` for a frustum whose near rectangle is given by its sides, which need not be
+// centered on the line of sight
+export const frustum = (
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number
+): Mat4 => [
+  [(2 * near) / (right - left), 0, 0, 0],
+  [0, (2 * near) / (top - bottom), 0, 0],
+  [(right + left) / (right - left), (top + bottom) / (top - bottom), (far + near) / (near - far), -1],
+  [0, 0, (2 * far * near) / (near - far), 0],
+]
+
 // -------------------------------------------------------------------------------------
 // combinators
 // -------------------------------------------------------------------------------------
@@ -73,6 +162,81 @@ export const mul =
   fa =>
     semigroupMat.concat(fa, fb)
 
+// `mul` for the 4x4 matrices of the transforms, the product keeps its size in the type
+export const mul4 =
+  (fb: Mat4) =>
+  (fa: Mat4): Mat4 => {
+    const times = (r: Vec4): Vec4 => [
+      dot(r)(row(0)(fb)),
+      dot(r)(row(1)(fb)),
+      dot(r)(row(2)(fb)),
+      dot(r)(row(3)(fb)),
+    ]
+    return [times(fa[0]), times(fa[1]), times(fa[2]), times(fa[3])]
+  }
+
+// below this absolute value a pivot is taken for zero
+const EPSILON = 1e-12
+
+// Gauss-Jordan elimination with partial pivoting of the square matrix `fa` alongside `fb`, the
+// rows of `fb` end up multiplied by the inverse of `fa` and the pivots give the determinant,
+// `None` when `fa` is singular
+const eliminate = (fa: Mat, fb: Mat): O.Option<{ readonly determinant: number; readonly solution: Mat }> => {
+  const a = fa.map(r => r.slice())
+  const b = fb.map(r => r.slice())
+  const n = a.length
+  let determinant = 1
+  for (let i = 0; i < n; i++) {
+    let p = i
+    for (let j = i + 1; j < n; j++) {
+      if (Math.abs(a[j][i]) > Math.abs(a[p][i])) {
+        p = j
+      }
+    }
+    if (Math.abs(a[p][i]) < EPSILON) {
+      return O.none
+    }
+    if (p !== i) {
+      const [ai, bi] = [a[i], b[i]]
+      a[i] = a[p]
+      b[i] = b[p]
+      a[p] = ai
+      b[p] = bi
+      determinant = -determinant
+    }
+    const pivot = a[i][i]
+    determinant *= pivot
+    a[i] = a[i].map(x => x / pivot)
+    b[i] = b[i].map(x => x / pivot)
+    for (let j = 0; j < n; j++) {
+      const k = a[j][i]
+      if (j !== i && k !== 0) {
+        a[j] = a[j].map((x, c) => x - k * a[i][c])
+        b[j] = b[j].map((x, c) => x - k * b[i][c])
+      }
+    }
+  }
+  return O.some({ determinant, solution: b as unknown as Mat })
+}
+
+// `None` for a singular matrix, the inverse has the size of the matrix
+export const invert = <M extends Mat>(fa: M): O.Option<M> =>
+  pipe(
+    eliminate(
+      fa,
+      pipe(
+        fa,
+        RNEA.mapWithIndex(i =>
+          pipe(
+            fa,
+            RNEA.mapWithIndex((j): number => (i === j ? 1 : 0))
+          )
+        )
+      )
+    ),
+    O.map(({ solution }) => solution as M)
+  )
+
 // -------------------------------------------------------------------------------------
 // instances
 // -------------------------------------------------------------------------------------
@@ -81,7 +245,7 @@ export const semigroupMat: Semigroup<Mat> = {
   concat: (x, y) => pipe(map(transpose(y), dot), fab => map(x, ar => map(fab, f => f(ar)))),
 }
 
-export const identity: Mat = [
+export const identity: Mat4 = [
   [1, 0, 0, 0],
   [0, 1, 0, 0],
   [0, 0, 1, 0],
@@ -100,3 +264,29 @@ export const concatAll = concatAll_(monoidMat)
 // -------------------------------------------------------------------------------------
 
 export const row: (n: number) => (as: Mat) => Vec = flow(at, RNEA.map)
+
+export const determinant = (fa: Mat): number =>
+  pipe(
+    eliminate(fa, fa),
+    O.fold(
+      () => 0,
+      ({ determinant }) => determinant
+    )
+  )
+
+// the point `[x, y, z]` transformed and divided by its `w` coordinate, unless that is zero
+export const transformPoint =
+  (m: Mat) =>
+  (p: Vec3): Vec3 => {
+    const [x, y, z, w] = semigroupMat.concat([[p[0], p[1], p[2], 1]], m)[0]
+    return w === 0 ? [x, y, z] : [x / w, y / w, z / w]
+  }
+
+// the direction `[x, y, z]` transformed without the translation, normals are transformed by the
+// transpose of the inverse instead
+export const transformDirection =
+  (m: Mat) =>
+  (v: Vec3): Vec3 => {
+    const [x, y, z] = semigroupMat.concat([[v[0], v[1], v[2], 0]], m)[0]
+    return [x, y, z]
+  }
@@ -0,0 +1,105 @@
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { Mesh, mesh } from './Shape'
+import { Vec3, add, normal, normalize } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+// an edge between two vertices, `a < b`, together with the faces sharing it
+export interface Edge {
+  readonly a: number
+  readonly b: number
+  readonly faces: ReadonlyArray<number>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+// a mesh of faces given by their points, the points that have the same coordinates become one
+// shared vertex
+export const fromFaces = (faces: ReadonlyArray<ReadonlyArray<Vec3>>): Mesh => {
+  const vertices: Array<Vec3> = []
+  const index = new Map<string, number>()
+  const indexOf = (v: Vec3): number => {
+    const key = `${v[0]},${v[1]},${v[2]}`
+    const i = index.get(key)
+    if (i !== undefined) {
+      return i
+    }
+    index.set(key, vertices.length)
+    vertices.push(v)
+    return vertices.length - 1
+  }
+  return mesh(
+    vertices,
+    faces.map(face => face.map(indexOf))
+  )
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const faces = (mesh: Mesh): ReadonlyArray<ReadonlyArray<Vec3>> =>
+  pipe(
+    mesh.faces,
+    RA.map(face => face.map(i => mesh.vertices[i]))
+  )
+
+// unit normals of the faces, the zero vector for degenerate faces
+export const faceNormals = (mesh: Mesh): ReadonlyArray<Vec3> =>
+  pipe(
+    faces(mesh),
+    RA.map(face =>
+      pipe(
+        normalize(normal(face)),
+        O.getOrElse<Vec3>(() => [0, 0, 0])
+      )
+    )
+  )
+
+// unit normals of the vertices, averaged from the faces around them weighted by their area
+export const vertexNormals = (mesh: Mesh): ReadonlyArray<Vec3> => {
+  const sums = mesh.vertices.map<Vec3>(() => [0, 0, 0])
+  faces(mesh).forEach((face, f) => {
+    const n = normal(face)
+    mesh.faces[f].forEach(i => {
+      sums[i] = add(n)(sums[i])
+    })
+  })
+  return sums.map(sum =>
+    pipe(
+      normalize(sum),
+      O.getOrElse(() => sum)
+    )
+  )
+}
+
+// the unique edges of the mesh in the order they are first met
+export const edges = (mesh: Mesh): ReadonlyArray<Edge> => {
+  const result: Array<{ a: number; b: number; faces: Array<number> }> = []
+  const index = new Map<string, number>()
+  mesh.faces.forEach((face, f) =>
+    face.forEach((i, k) => {
+      const j = face[(k + 1) % face.length]
+      if (i === j) {
+        return
+      }
+      const a = Math.min(i, j)
+      const b = Math.max(i, j)
+      const key = `${a}:${b}`
+      const e = index.get(key)
+      if (e === undefined) {
+        index.set(key, result.length)
+        result.push({ a, b, faces: [f] })
+      } else if (result[e].faces.indexOf(f) < 0) {
+        result[e].faces.push(f)
+      }
+    })
+  )
+  return result
+}
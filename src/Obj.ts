@@ -0,0 +1,114 @@
+import * as E from 'fp-ts/Either'
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { Mesh, Shape, composite, mesh } from './Shape'
+import { Vec3 } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+export interface ParseError {
+  // 1-based line number
+  readonly line: number
+  readonly message: string
+}
+
+// the faces following an `o` or `g` statement, faces preceding any of them have an empty name
+export interface Group {
+  readonly name: string
+  readonly mesh: Mesh
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const parseError = (line: number, message: string): ParseError => ({ line, message })
+
+// keeps only the vertices used by the faces of a group
+const compact = (vertices: ReadonlyArray<Vec3>, faces: ReadonlyArray<ReadonlyArray<number>>): Mesh => {
+  const used: Array<Vec3> = []
+  const index = new Map<number, number>()
+  const remapped = faces.map(face =>
+    face.map(i => {
+      const j = index.get(i)
+      if (j !== undefined) {
+        return j
+      }
+      index.set(i, used.length)
+      used.push(vertices[i])
+      return used.length - 1
+    })
+  )
+  return mesh(used, remapped)
+}
+
+const parseNumber = (s: string): number =>
+  /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(s) ? Number(s) : NaN
+
+// resolves a 1-based or negative (relative to the end) vertex reference to a 0-based index
+const parseIndex =
+  (count: number) =>
+  (s: string): O.Option<number> => {
+    const reference = s.split('/')[0]
+    const n = /^-?\d+$/.test(reference) ? Number(reference) : 0
+    const i = n < 0 ? count + n : n - 1
+    return n !== 0 && i >= 0 && i < count ? O.some(i) : O.none
+  }
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+// reads the vertices and the faces of a Wavefront OBJ file, vertex colors, texture coordinates,
+// normals, materials and other statements are ignored
+export const parseGroups = (text: string): E.Either<ParseError, ReadonlyArray<Group>> => {
+  const lines = text.split(/\r?\n/)
+  const vertices: Array<Vec3> = []
+  const groups: Array<{ name: string; faces: Array<ReadonlyArray<number>> }> = [{ name: '', faces: [] }]
+  for (let n = 0; n < lines.length; n++) {
+    const [keyword, ...args] = lines[n].replace(/#.*/, '').trim().split(/\s+/)
+    switch (keyword) {
+      case 'v': {
+        // a `w` coordinate or the vertex colors may follow, they are ignored
+        const xyz = args.slice(0, 3).map(parseNumber)
+        if (args.length < 3 || xyz.some(isNaN)) {
+          return E.left(parseError(n + 1, `invalid vertex "${args.join(' ')}"`))
+        }
+        vertices.push([xyz[0], xyz[1], xyz[2]])
+        break
+      }
+      case 'f': {
+        if (args.length < 3) {
+          return E.left(parseError(n + 1, 'a face needs at least 3 vertices'))
+        }
+        const face = pipe(args, RA.traverse(O.Applicative)(parseIndex(vertices.length)))
+        if (O.isNone(face)) {
+          const invalid = args.filter(arg => O.isNone(parseIndex(vertices.length)(arg)))[0]
+          return E.left(parseError(n + 1, `invalid vertex reference "${invalid}"`))
+        }
+        groups[groups.length - 1].faces.push(face.value)
+        break
+      }
+      case 'o':
+      case 'g':
+        groups.push({ name: args.join(' '), faces: [] })
+        break
+    }
+  }
+  return E.right(
+    pipe(
+      groups,
+      RA.filter(group => RA.isNonEmpty(group.faces)),
+      RA.map(group => ({ name: group.name, mesh: compact(vertices, group.faces) }))
+    )
+  )
+}
+
+export const parse = (text: string): E.Either<ParseError, Shape> =>
+  pipe(
+    parseGroups(text),
+    E.map(groups => composite(groups.map(group => group.mesh)))
+  )
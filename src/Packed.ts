@@ -0,0 +1,130 @@
+import { Mat } from './Mat'
+import { Vec } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+// a matrix stored row by row in a typed array, for the loops over many vertices that would
+// otherwise build a closure and an array per row
+export interface Packed {
+  readonly rows: number
+  readonly columns: number
+  readonly data: Float32Array | Float64Array
+}
+
+// single precision halves the memory but rounds the results, double precision gives the same
+// results as `Mat`
+export type Precision = 'float32' | 'float64'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+export const alloc = (rows: number, columns: number, precision: Precision = 'float64'): Packed => ({
+  rows,
+  columns,
+  data: precision === 'float32' ? new Float32Array(rows * columns) : new Float64Array(rows * columns),
+})
+
+// the rows are expected to have the length of the first one
+export const pack = (m: Mat, precision: Precision = 'float64'): Packed => {
+  // an empty matrix can still get here at runtime, `Mat.mul` accepts it too
+  const out = alloc(m.length, m.length === 0 ? 0 : m[0].length, precision)
+  for (let i = 0; i < out.rows; i++) {
+    for (let j = 0; j < out.columns; j++) {
+      out.data[i * out.columns + j] = m[i][j]
+    }
+  }
+  return out
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+// writes `fa × fb` into `out`, which needs `fa.rows` rows of `fb.columns` columns and must not
+// share its data with `fa` or `fb`, the products are summed in the same order as `Mat.mul`
+export const mulInto = (fa: Packed, fb: Packed, out: Packed): Packed => {
+  const a = fa.data
+  const b = fb.data
+  const o = out.data
+  const inner = Math.min(fa.columns, fb.rows)
+  for (let i = 0; i < fa.rows; i++) {
+    for (let j = 0; j < fb.columns; j++) {
+      let sum = 0
+      for (let k = 0; k < inner; k++) {
+        sum += a[i * fa.columns + k] * b[k * fb.columns + j]
+      }
+      o[i * out.columns + j] = sum
+    }
+  }
+  return out
+}
+
+// `mulInto` unrolled for points in homogeneous coordinates and a 4x4 matrix
+export const transformPointsInto = (points: Packed, m: Packed, out: Packed): Packed => {
+  const p = points.data
+  const t = m.data
+  const o = out.data
+  for (let i = 0; i < points.rows * 4; i += 4) {
+    const x = p[i]
+    const y = p[i + 1]
+    const z = p[i + 2]
+    const w = p[i + 3]
+    o[i] = 0 + x * t[0] + y * t[4] + z * t[8] + w * t[12]
+    o[i + 1] = 0 + x * t[1] + y * t[5] + z * t[9] + w * t[13]
+    o[i + 2] = 0 + x * t[2] + y * t[6] + z * t[10] + w * t[14]
+    o[i + 3] = 0 + x * t[3] + y * t[7] + z * t[11] + w * t[15]
+  }
+  return out
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const unpack = (p: Packed): Mat => {
+  const m: Array<Vec> = []
+  for (let i = 0; i < p.rows; i++) {
+    m.push(getRow(p, i))
+  }
+  return m as unknown as Mat
+}
+
+// the row `i`, `p` should have at least one column
+export const getRow = (p: Packed, i: number): Vec => {
+  const row: Array<number> = []
+  for (let j = 0; j < p.columns; j++) {
+    row.push(p.data[i * p.columns + j])
+  }
+  return row as unknown as Vec
+}
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+// `Mat.mul` with the matrices packed, the points in homogeneous coordinates take the unrolled
+// path
+export const mul =
+  (fb: Mat): ((fa: Mat) => Mat) =>
+  fa => {
+    const a = pack(fa)
+    const b = pack(fb)
+    const out = alloc(a.rows, b.columns)
+    return unpack(
+      a.columns === 4 && b.rows === 4 && b.columns === 4 ? transformPointsInto(a, b, out) : mulInto(a, b, out)
+    )
+  }
+
+// the points in homogeneous coordinates transformed by the 4x4 matrix `m` into a new packed
+// matrix of the same precision
+export const transformPoints =
+  (m: Mat) =>
+  (points: Packed): Packed =>
+    transformPointsInto(
+      points,
+      pack(m),
+      alloc(points.rows, 4, points.data instanceof Float32Array ? 'float32' : 'float64')
+    )
@@ -1,7 +1,7 @@
 import * as NEA from 'fp-ts/ReadonlyNonEmptyArray'
 import * as RA from 'fp-ts/ReadonlyArray'
 import { pipe } from 'fp-ts/lib/function'
-import { Vec } from './Vec'
+import { Vec, Vec3, dot, scale, sub } from './Vec'
 
 const isPointFinite = (point: Vec): boolean => isFinite(point[0]) && isFinite(point[1]) && isFinite(point[2])
 
@@ -9,14 +9,33 @@ const isPointFinite = (point: Vec): boolean => isFinite(point[0]) && isFinite(po
 // model
 // -------------------------------------------------------------------------------------
 
-export type Path3D = ReadonlyArray<ReadonlyArray<Vec>>
+export interface Quadratic<A = Vec> {
+  readonly _tag: 'Quadratic'
+  readonly control: A
+  readonly end: A
+}
+
+export interface Cubic<A = Vec> {
+  readonly _tag: 'Cubic'
+  readonly control1: A
+  readonly control2: A
+  readonly end: A
+}
+
+export type Curve<A = Vec> = Quadratic<A> | Cubic<A>
+
+// a point reached with a straight line, or a Bézier curve starting at the end of the previous
+// segment
+export type Segment<A = Vec> = A | Curve<A>
+
+export type Path3D = ReadonlyArray<ReadonlyArray<Segment<Vec3>>>
 
 // -------------------------------------------------------------------------------------
 // constructors
 // -------------------------------------------------------------------------------------
 
 export const moveTo =
-  (point: Vec) =>
+  (point: Vec3) =>
   (path: Path3D): Path3D =>
     isPointFinite(point)
       ? // create a new subpath with the specified point
@@ -24,19 +43,42 @@ export const moveTo =
       : path
 
 export const lineTo =
-  (point: Vec) =>
+  (point: Vec3) =>
   (path: Path3D): Path3D =>
     isPointFinite(point)
       ? RA.isNonEmpty(path)
         ? // connect the last point in the subpath to the given point
           pipe(
             path,
-            NEA.modifyLast(cur => RA.append(point)(cur))
+            NEA.modifyLast(cur => RA.append<Segment<Vec3>>(point)(cur))
           )
         : // if path has no subpaths, ensure there is a subpath
           moveTo(point)(path)
       : path
 
+const curveTo =
+  (curve: Curve<Vec3>) =>
+  (path: Path3D): Path3D => {
+    const points = controlPoints(curve)
+    if (!points.every(isPointFinite)) {
+      return path
+    }
+    // if path has no subpaths, ensure there is a subpath starting at the first control point
+    const subPaths: NEA.ReadonlyNonEmptyArray<ReadonlyArray<Segment<Vec3>>> = RA.isNonEmpty(path)
+      ? path
+      : [[points[0]]]
+    return pipe(
+      subPaths,
+      NEA.modifyLast(cur => RA.append<Segment<Vec3>>(curve)(cur))
+    )
+  }
+
+export const quadraticCurveTo = (control: Vec3, point: Vec3): ((path: Path3D) => Path3D) =>
+  curveTo({ _tag: 'Quadratic', control, end: point })
+
+export const bezierCurveTo = (control1: Vec3, control2: Vec3, point: Vec3): ((path: Path3D) => Path3D) =>
+  curveTo({ _tag: 'Cubic', control1, control2, end: point })
+
 export const closePath = (path: Path3D): Path3D => {
   // do nothing if path has no subpaths
   if (!RA.isNonEmpty(path)) {
@@ -50,8 +92,8 @@ export const closePath = (path: Path3D): Path3D => {
     return path
   }
 
-  const end = NEA.last(cur)
-  const start = cur[0]
+  const end = endPoint(NEA.last(cur))
+  const start = endPoint(cur[0])
 
   // do nothing if both ends are the same point
   if (end[0] === start[0] && end[1] === start[1] && end[2] === start[2]) {
@@ -60,5 +102,124 @@ export const closePath = (path: Path3D): Path3D => {
 
   // mark the last path as closed adding a new subpath whose first point
   // is the same as the previous subpath's first point
-  return NEA.snoc(NEA.updateLast(RA.snoc(cur, start) as ReadonlyArray<Vec>)(path), [start])
+  return NEA.snoc(NEA.updateLast(RA.snoc(cur, start) as ReadonlyArray<Segment<Vec3>>)(path), [start])
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+export const map =
+  <A, B>(f: (a: A) => B) =>
+  (segment: Segment<A>): Segment<B> => {
+    if (!isCurve(segment)) {
+      return f(segment)
+    }
+    switch (segment._tag) {
+      case 'Quadratic':
+        return { _tag: 'Quadratic', control: f(segment.control), end: f(segment.end) }
+      case 'Cubic':
+        return {
+          _tag: 'Cubic',
+          control1: f(segment.control1),
+          control2: f(segment.control2),
+          end: f(segment.end),
+        }
+    }
+  }
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const isCurve = <A>(segment: Segment<A>): segment is Curve<A> =>
+  typeof segment === 'object' && segment !== null && '_tag' in segment
+
+// the points defining a segment, ending with its end point
+export const controlPoints = <A>(segment: Segment<A>): ReadonlyArray<A> => {
+  if (!isCurve(segment)) {
+    return [segment]
+  }
+  switch (segment._tag) {
+    case 'Quadratic':
+      return [segment.control, segment.end]
+    case 'Cubic':
+      return [segment.control1, segment.control2, segment.end]
+  }
+}
+
+export const endPoint = <A>(segment: Segment<A>): A => {
+  const points = controlPoints(segment)
+  return points[points.length - 1]
 }
+
+// curves are split in halves at most this many times
+const MAX_DEPTH = 8
+
+const midpoint = <V extends Vec>(a: V, b: V): V => a.map((x, i) => (x + b[i]) / 2) as unknown as V
+
+// de Casteljau's algorithm, splits the control polygon of a curve at its middle
+const split = <V extends Vec>(points: ReadonlyArray<V>): readonly [ReadonlyArray<V>, ReadonlyArray<V>] => {
+  const left = [points[0]]
+  const right = [points[points.length - 1]]
+  let current = points
+  while (current.length > 1) {
+    current = current.slice(1).map((p, i) => midpoint(current[i], p))
+    left.push(current[0])
+    right.unshift(current[current.length - 1])
+  }
+  return [left, right]
+}
+
+// the distance of `p` from the line segment going from `a` to `b`
+const distance =
+  (a: Vec, b: Vec) =>
+  (p: Vec): number => {
+    const ab = sub(a)(b)
+    const ap = sub(a)(p)
+    const length = dot(ab)(ab)
+    const t = length === 0 ? 0 : Math.max(0, Math.min(1, dot(ap)(ab) / length))
+    const d = sub(scale(t)(ab))(ap)
+    return Math.sqrt(dot(d)(d))
+  }
+
+// homogeneous points are compared after the perspective divide, which is undefined at or
+// behind the viewer
+const isFlat =
+  (tolerance: number) =>
+  (points: ReadonlyArray<Vec>): boolean => {
+    if (points.some(p => p.length > 3 && p[3] <= 0)) {
+      return false
+    }
+    const [a, ...rest] = points.map(p => (p.length > 3 ? [p[0] / p[3], p[1] / p[3], p[2] / p[3]] : p) as Vec)
+    const b = rest[rest.length - 1]
+    return rest.every(p => distance(a, b)(p) <= tolerance)
+  }
+
+// approximates a segment starting at `start` with straight lines, so that the curve is never
+// further than `tolerance` from them, the result leaves `start` out
+export const flatten =
+  (tolerance: number) =>
+  <V extends Vec>(start: V, segment: Segment<V>): ReadonlyArray<V> => {
+    const go = (points: ReadonlyArray<V>, depth: number): ReadonlyArray<V> =>
+      depth >= MAX_DEPTH || isFlat(tolerance)(points)
+        ? [points[points.length - 1]]
+        : pipe(
+            split(points),
+            RA.chain(half => go(half, depth + 1))
+          )
+    return isCurve(segment) ? go([start, ...controlPoints(segment)], 0) : [segment]
+  }
+
+// the points of a subpath once its curves are flattened
+export const toPolyline =
+  (tolerance: number) =>
+  <V extends Vec>(subPath: ReadonlyArray<Segment<V>>): ReadonlyArray<V> =>
+    pipe(
+      subPath,
+      RA.reduce<Segment<V>, ReadonlyArray<V>>([], (points, segment) =>
+        points.length === 0
+          ? [endPoint(segment)]
+          : points.concat(flatten(tolerance)(points[points.length - 1], segment))
+      )
+    )
@@ -0,0 +1,250 @@
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { faces, fromFaces } from './Mesh'
+import { Mesh, mesh } from './Shape'
+import { Vec3, normalize, scale } from './Vec'
+
+// All the solids are centered at the origin with Y as their axis, their faces wind
+// counter-clockwise when seen from outside so that their normals point outwards.
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const range = (n: number): ReadonlyArray<number> => RA.makeBy(n, i => i)
+
+// resolution parameters are rounded down to whole numbers no smaller than `min`
+const resolution = (n: number, min: number): number => Math.max(min, Math.floor(n))
+
+// a grid of `ni` by `nj` quads, `vertex(i, j)` is the vertex of the row `i` and the column `j`,
+// the quads wind counter-clockwise around the cross product of the row and column directions
+const grid = (ni: number, nj: number, vertex: (i: number, j: number) => Vec3): Mesh => {
+  const index = (i: number, j: number) => i * (nj + 1) + j
+  return mesh(
+    pipe(
+      range(ni + 1),
+      RA.chain(i => range(nj + 1).map(j => vertex(i, j)))
+    ),
+    pipe(
+      range(ni),
+      RA.chain(i => range(nj).map(j => [index(i, j), index(i + 1, j), index(i + 1, j + 1), index(i, j + 1)]))
+    )
+  )
+}
+
+// merges the meshes into one, sharing the vertices that have the same coordinates
+const weld = (meshes: ReadonlyArray<Mesh>): Mesh => fromFaces(pipe(meshes, RA.chain(faces)))
+
+// the vertices of a circle of radius `r` in the plane `y`, starting on the X axis and turning
+// from X towards Z
+const circle = (r: number, y: number, segments: number): ReadonlyArray<Vec3> =>
+  range(segments).map(j => {
+    const theta = (2 * Math.PI * j) / segments
+    return [r * Math.cos(theta), y, r * Math.sin(theta)]
+  })
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+// a grid in the XZ plane facing +Y
+export const plane = (width: number, depth: number, segmentsX = 1, segmentsZ = 1): Mesh => {
+  const nx = resolution(segmentsX, 1)
+  const nz = resolution(segmentsZ, 1)
+  return grid(nz, nx, (i, j) => [width * (j / nx - 0.5), 0, depth * (i / nz - 0.5)])
+}
+
+// each face of the box is split into `segments` by `segments` quads
+export const box = (width: number, height: number, depth: number, segments = 1): Mesh => {
+  const n = resolution(segments, 1)
+  const size = [width, height, depth]
+  // the same expression is used on every face so that the shared vertices are equal
+  const coordinate = (axis: number, i: number) => size[axis] * (i / n - 0.5)
+  // the fixed axis of a face, its side and the two axes spanning it in counter-clockwise order
+  const sides: ReadonlyArray<readonly [number, number, number, number]> = [
+    [0, n, 1, 2],
+    [0, 0, 2, 1],
+    [1, n, 2, 0],
+    [1, 0, 0, 2],
+    [2, n, 0, 1],
+    [2, 0, 1, 0],
+  ]
+  return weld(
+    sides.map(([k, side, p, q]) =>
+      grid(n, n, (i, j) => {
+        const v = [0, 0, 0]
+        v[k] = coordinate(k, side)
+        v[p] = coordinate(p, i)
+        v[q] = coordinate(q, j)
+        return [v[0], v[1], v[2]]
+      })
+    )
+  )
+}
+
+// a sphere of `segments` meridians and `rings` parallels, quads in between triangles at the poles
+export const uvSphere = (radius: number, segments = 16, rings = 8): Mesh => {
+  const ns = resolution(segments, 3)
+  const nr = resolution(rings, 2)
+  const bottom = 1 + (nr - 1) * ns
+  const index = (i: number, j: number) => 1 + (i - 1) * ns + (j % ns)
+  const parallels = pipe(
+    range(nr - 1),
+    RA.chain(i => {
+      const phi = (Math.PI * (i + 1)) / nr
+      return circle(radius * Math.sin(phi), radius * Math.cos(phi), ns)
+    })
+  )
+  return mesh(
+    [[0, radius, 0], ...parallels, [0, -radius, 0]],
+    [
+      ...range(ns).map(j => [0, index(1, j + 1), index(1, j)]),
+      ...pipe(
+        range(nr - 2),
+        RA.chain(i =>
+          range(ns).map(j => [index(i + 1, j), index(i + 1, j + 1), index(i + 2, j + 1), index(i + 2, j)])
+        )
+      ),
+      ...range(ns).map(j => [index(nr - 1, j), index(nr - 1, j + 1), bottom]),
+    ]
+  )
+}
+
+const t = (1 + Math.sqrt(5)) / 2
+
+const icosahedron = mesh(
+  [
+    [-1, t, 0],
+    [1, t, 0],
+    [-1, -t, 0],
+    [1, -t, 0],
+    [0, -1, t],
+    [0, 1, t],
+    [0, -1, -t],
+    [0, 1, -t],
+    [t, 0, -1],
+    [t, 0, 1],
+    [-t, 0, -1],
+    [-t, 0, 1],
+  ],
+  [
+    [0, 11, 5],
+    [0, 5, 1],
+    [0, 1, 7],
+    [0, 7, 10],
+    [0, 10, 11],
+    [1, 5, 9],
+    [5, 11, 4],
+    [11, 10, 2],
+    [10, 7, 6],
+    [7, 1, 8],
+    [3, 9, 4],
+    [3, 4, 2],
+    [3, 2, 6],
+    [3, 6, 8],
+    [3, 8, 9],
+    [4, 9, 5],
+    [2, 4, 11],
+    [6, 2, 10],
+    [8, 6, 7],
+    [9, 8, 1],
+  ]
+)
+
+// splits every triangle into four, the new vertices are shared by neighbouring triangles
+const subdivide = (m: Mesh): Mesh => {
+  const vertices = m.vertices.slice()
+  const midpoints = new Map<string, number>()
+  const midpoint = (a: number, b: number): number => {
+    const key = a < b ? `${a},${b}` : `${b},${a}`
+    const i = midpoints.get(key)
+    if (i !== undefined) {
+      return i
+    }
+    const va = vertices[a]
+    const vb = vertices[b]
+    midpoints.set(key, vertices.length)
+    vertices.push([(va[0] + vb[0]) / 2, (va[1] + vb[1]) / 2, (va[2] + vb[2]) / 2])
+    return vertices.length - 1
+  }
+  const triangles = pipe(
+    m.faces,
+    RA.chain(([a, b, c]) => {
+      const ab = midpoint(a, b)
+      const bc = midpoint(b, c)
+      const ca = midpoint(c, a)
+      return [
+        [a, ab, ca],
+        [b, bc, ab],
+        [c, ca, bc],
+        [ab, bc, ca],
+      ]
+    })
+  )
+  return mesh(vertices, triangles)
+}
+
+// an icosahedron whose triangles are split `subdivisions` times, with 20 * 4^subdivisions
+// triangles of similar size
+export const icosphere = (radius: number, subdivisions = 2): Mesh => {
+  const m = range(resolution(subdivisions, 0)).reduce(subdivide, icosahedron)
+  return mesh(
+    m.vertices.map(v =>
+      pipe(
+        normalize(v),
+        O.fold(
+          () => v,
+          u => scale(radius)(u)
+        )
+      )
+    ),
+    m.faces
+  )
+}
+
+export const cylinder = (radius: number, height: number, segments = 16): Mesh => {
+  const n = resolution(segments, 3)
+  return mesh(
+    [...circle(radius, -height / 2, n), ...circle(radius, height / 2, n)],
+    [
+      ...range(n).map(j => [n + j, n + ((j + 1) % n), (j + 1) % n, j]),
+      range(n),
+      range(n).map(j => 2 * n - 1 - j),
+    ]
+  )
+}
+
+// the base is in the plane `y = -height / 2` and the apex on the Y axis at `height / 2`
+export const cone = (radius: number, height: number, segments = 16): Mesh => {
+  const n = resolution(segments, 3)
+  return mesh(
+    [...circle(radius, -height / 2, n), [0, height / 2, 0]],
+    [...range(n).map(j => [n, (j + 1) % n, j]), range(n)]
+  )
+}
+
+// a torus around the Y axis, `radius` is the distance from the center to the middle of the
+// tube
+export const torus = (radius: number, tube: number, radialSegments = 16, tubularSegments = 8): Mesh => {
+  const nu = resolution(radialSegments, 3)
+  const nv = resolution(tubularSegments, 3)
+  const index = (u: number, v: number) => (u % nu) * nv + (v % nv)
+  return mesh(
+    pipe(
+      range(nu),
+      RA.chain(u => {
+        const theta = (2 * Math.PI * u) / nu
+        return range(nv).map((v): Vec3 => {
+          const phi = (2 * Math.PI * v) / nv
+          const r = radius + tube * Math.cos(phi)
+          return [r * Math.cos(theta), tube * Math.sin(phi), r * Math.sin(theta)]
+        })
+      })
+    ),
+    pipe(
+      range(nu),
+      RA.chain(u => range(nv).map(v => [index(u, v), index(u, v + 1), index(u + 1, v + 1), index(u + 1, v)]))
+    )
+  )
+}
@@ -0,0 +1,131 @@
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { Mat4 } from './Mat'
+import { Angle, angle } from './Shape'
+import { Vec } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+// a rotation as the quaternion `w + xi + yj + zk`, stored as `[x, y, z, w]`
+export type Quat = readonly [number, number, number, number]
+
+// the axes of the rotations in the order in which they are applied
+export type EulerOrder = 'XYZ' | 'XZY' | 'YXZ' | 'YZX' | 'ZXY' | 'ZYX'
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+export const identity: Quat = [0, 0, 0, 1]
+
+// turns counter-clockwise when the axis points towards the viewer, like `Mat.rotateX`, a zero
+// axis gives the identity
+export const fromAxisAngle = (axis: Vec, a: Angle): Quat => {
+  const length = Math.sqrt(axis[0] * axis[0] + axis[1] * axis[1] + axis[2] * axis[2])
+  if (length === 0) {
+    return identity
+  }
+  const half = (angle(a) * Math.PI) / 360
+  const s = Math.sin(half) / length
+  return [axis[0] * s, axis[1] * s, axis[2] * s, Math.cos(half)]
+}
+
+const axes: Readonly<Record<string, Vec>> = {
+  X: [1, 0, 0],
+  Y: [0, 1, 0],
+  Z: [0, 0, 1],
+}
+
+export const fromEuler = (x: Angle, y: Angle, z: Angle, order: EulerOrder = 'XYZ'): Quat => {
+  const angles: Readonly<Record<string, Angle>> = { X: x, Y: y, Z: z }
+  return pipe(
+    order.split(''),
+    RA.reduce(identity, (q, axis) => mul(fromAxisAngle(axes[axis], angles[axis]))(q))
+  )
+}
+
+// -------------------------------------------------------------------------------------
+// combinators
+// -------------------------------------------------------------------------------------
+
+// the rotation `fa` followed by `fb`, in the same order as `Mat.mul`
+export const mul =
+  (fb: Quat): ((fa: Quat) => Quat) =>
+  fa =>
+    [
+      fb[3] * fa[0] + fb[0] * fa[3] + fb[1] * fa[2] - fb[2] * fa[1],
+      fb[3] * fa[1] - fb[0] * fa[2] + fb[1] * fa[3] + fb[2] * fa[0],
+      fb[3] * fa[2] + fb[0] * fa[1] - fb[1] * fa[0] + fb[2] * fa[3],
+      fb[3] * fa[3] - fb[0] * fa[0] - fb[1] * fa[1] - fb[2] * fa[2],
+    ]
+
+export const dot =
+  (fb: Quat): ((fa: Quat) => number) =>
+  fa =>
+    fa[0] * fb[0] + fa[1] * fb[1] + fa[2] * fb[2] + fa[3] * fb[3]
+
+// the inverse rotation of a unit quaternion
+export const conjugate = (fa: Quat): Quat => [-fa[0], -fa[1], -fa[2], fa[3]]
+
+// `None` for the zero quaternion, which is not a rotation
+export const normalize = (fa: Quat): O.Option<Quat> => {
+  const length = Math.sqrt(dot(fa)(fa))
+  return length === 0 ? O.none : O.some([fa[0] / length, fa[1] / length, fa[2] / length, fa[3] / length])
+}
+
+const lerp = (fa: Quat, fb: Quat, t: number): Quat => [
+  fa[0] + (fb[0] - fa[0]) * t,
+  fa[1] + (fb[1] - fa[1]) * t,
+  fa[2] + (fb[2] - fa[2]) * t,
+  fa[3] + (fb[3] - fa[3]) * t,
+]
+
+// below this angle between the quaternions `slerp` falls back to a linear interpolation
+const EPSILON = 1e-6
+
+// interpolates at a constant angular speed between the unit quaternions `fa`, at `t = 0`, and
+// `fb`, at `t = 1`, along the shortest arc
+export const slerp =
+  (fb: Quat, t: number): ((fa: Quat) => Quat) =>
+  fa => {
+    const d = dot(fb)(fa)
+    // `q` and `-q` are the same rotation, the one closer to `fa` gives the shortest arc
+    const b: Quat = d < 0 ? [-fb[0], -fb[1], -fb[2], -fb[3]] : fb
+    const cos = Math.min(Math.abs(d), 1)
+    const theta = Math.acos(cos)
+    if (theta < EPSILON) {
+      return pipe(
+        normalize(lerp(fa, b, t)),
+        O.getOrElse(() => fa)
+      )
+    }
+    const sin = Math.sin(theta)
+    const ka = Math.sin((1 - t) * theta) / sin
+    const kb = Math.sin(t * theta) / sin
+    return [ka * fa[0] + kb * b[0], ka * fa[1] + kb * b[1], ka * fa[2] + kb * b[2], ka * fa[3] + kb * b[3]]
+  }
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+export const monoidQuat: Monoid<Quat> = {
+  concat: (x, y) => mul(y)(x),
+  empty: identity,
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+// the rotation matrix of a unit quaternion, for row vectors like the other matrices of `Mat`
+export const toMat = ([x, y, z, w]: Quat): Mat4 => [
+  [1 - 2 * (y * y + z * z), 2 * (x * y + z * w), 2 * (x * z - y * w), 0],
+  [2 * (x * y - z * w), 1 - 2 * (x * x + z * z), 2 * (y * z + x * w), 0],
+  [2 * (x * z + y * w), 2 * (y * z - x * w), 1 - 2 * (x * x + y * y), 0],
+  [0, 0, 0, 1],
+]
@@ -0,0 +1,238 @@
+import * as IO from 'fp-ts/IO'
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { CanvasDimensions } from './Canvas'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+export interface MethodCall {
+  readonly _tag: 'MethodCall'
+  readonly name: string
+  readonly args: ReadonlyArray<unknown>
+}
+
+export interface PropertySet {
+  readonly _tag: 'PropertySet'
+  readonly name: string
+  readonly value: unknown
+}
+
+export type Event = MethodCall | PropertySet
+
+// a gradient created by the recording context, its color stops are appended as they are added
+export interface RecordedGradient {
+  readonly _tag: 'RecordedGradient'
+  readonly kind: 'linear' | 'radial'
+  readonly args: ReadonlyArray<number>
+  readonly stops: ReadonlyArray<readonly [number, string]>
+}
+
+// the properties of the context at the time a path was filled, stroked or clipped
+export type Properties = Readonly<Record<string, unknown>>
+
+export type SubPath = ReadonlyArray<readonly [number, number]>
+
+export interface Painted {
+  readonly operation: 'fill' | 'stroke' | 'clip'
+  readonly subPaths: ReadonlyArray<SubPath>
+  readonly properties: Properties
+}
+
+export interface Recorder {
+  // records the calls made to it, no pixels are drawn
+  readonly context: CanvasRenderingContext2D
+  readonly events: IO.IO<ReadonlyArray<Event>>
+}
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+const defaults: Properties = {
+  fillStyle: '#000000',
+  font: '10px sans-serif',
+  globalAlpha: 1,
+  globalCompositeOperation: 'source-over',
+  imageSmoothingEnabled: true,
+  lineCap: 'butt',
+  lineDashOffset: 0,
+  lineJoin: 'miter',
+  lineWidth: 1,
+  miterLimit: 10,
+  shadowBlur: 0,
+  shadowColor: 'rgba(0, 0, 0, 0)',
+  shadowOffsetX: 0,
+  shadowOffsetY: 0,
+  strokeStyle: '#000000',
+  textAlign: 'start',
+  textBaseline: 'alphabetic',
+}
+
+// the methods of `CanvasRenderingContext2D` used by the library
+const methods: ReadonlyArray<string> = [
+  'beginPath',
+  'bezierCurveTo',
+  'clip',
+  'closePath',
+  'createImageData',
+  'createLinearGradient',
+  'createPattern',
+  'createRadialGradient',
+  'drawFocusIfNeeded',
+  'drawImage',
+  'fill',
+  'fillText',
+  'getLineDash',
+  'getTransform',
+  'lineTo',
+  'measureText',
+  'moveTo',
+  'putImageData',
+  'quadraticCurveTo',
+  'restore',
+  'rotate',
+  'save',
+  'scale',
+  'setLineDash',
+  'setTransform',
+  'stroke',
+  'strokeText',
+  'transform',
+  'translate',
+]
+
+const gradient = (kind: RecordedGradient['kind'], args: ReadonlyArray<number>) => {
+  const stops: Array<readonly [number, string]> = []
+  return {
+    _tag: 'RecordedGradient',
+    kind,
+    args,
+    stops,
+    addColorStop: (offset: number, color: string) => {
+      stops.push([offset, color])
+    },
+  }
+}
+
+export const recorder = (dimensions: CanvasDimensions = { width: 300, height: 150 }): Recorder => {
+  const events: Array<Event> = []
+  const stack: Array<Properties> = []
+  let properties: Properties = { ...defaults, lineDash: RA.empty }
+  const canvas = {
+    width: dimensions.width,
+    height: dimensions.height,
+    addEventListener: () => undefined,
+    toDataURL: () => 'data:,',
+  }
+  const results: Readonly<Record<string, (...args: Array<any>) => unknown>> = {
+    save: () => {
+      stack.push(properties)
+    },
+    restore: () => {
+      properties = stack.pop() || properties
+    },
+    setLineDash: (segments: ReadonlyArray<number>) => {
+      properties = { ...properties, lineDash: segments }
+    },
+    getLineDash: () => (properties.lineDash as ReadonlyArray<number>).slice(),
+    getTransform: () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }),
+    measureText: (text: string) => ({ width: text.length * 6 }),
+    createLinearGradient: (...args: Array<number>) => gradient('linear', args),
+    createRadialGradient: (...args: Array<number>) => gradient('radial', args),
+    createPattern: (...args: Array<unknown>) => ({ _tag: 'RecordedPattern', args }),
+    createImageData: (width: number, height: number) => ({
+      width,
+      height,
+      data: new Uint8ClampedArray(width * height * 4),
+    }),
+  }
+  const context = new Proxy(
+    {},
+    {
+      get: (_, name) => {
+        if (name === 'canvas') {
+          return canvas
+        }
+        if (typeof name !== 'string') {
+          return undefined
+        }
+        if (methods.indexOf(name) >= 0) {
+          return (...args: Array<unknown>) => {
+            events.push({ _tag: 'MethodCall', name, args })
+            return name in results ? results[name](...args) : undefined
+          }
+        }
+        return properties[name]
+      },
+      set: (_, name, value) => {
+        if (typeof name === 'string') {
+          events.push({ _tag: 'PropertySet', name, value })
+          properties = { ...properties, [name]: value }
+        }
+        return true
+      },
+    }
+  ) as CanvasRenderingContext2D
+  return { context, events: () => events.slice() }
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+// the arguments of every call made to the method `name`
+export const calls =
+  (name: string) =>
+  (events: ReadonlyArray<Event>): ReadonlyArray<ReadonlyArray<unknown>> =>
+    pipe(
+      events,
+      RA.filterMap(e => (e._tag === 'MethodCall' && e.name === name ? O.some(e.args) : O.none))
+    )
+
+// replays the events to collect the paths that were filled, stroked or used for clipping
+export const painted = (events: ReadonlyArray<Event>): ReadonlyArray<Painted> => {
+  const result: Array<Painted> = []
+  const stack: Array<Properties> = []
+  let properties: Properties = { ...defaults, lineDash: RA.empty }
+  let subPaths: ReadonlyArray<SubPath> = []
+  events.forEach(e => {
+    if (e._tag === 'PropertySet') {
+      properties = { ...properties, [e.name]: e.value }
+      return
+    }
+    const [x, y] = e.args as ReadonlyArray<number>
+    switch (e.name) {
+      case 'save':
+        stack.push(properties)
+        break
+      case 'restore':
+        properties = stack.pop() || properties
+        break
+      case 'setLineDash':
+        properties = { ...properties, lineDash: e.args[0] }
+        break
+      case 'beginPath':
+        subPaths = []
+        break
+      case 'moveTo':
+        subPaths = RA.append(RA.of([x, y] as const))(subPaths)
+        break
+      case 'lineTo':
+        subPaths = pipe(
+          subPaths,
+          RA.modifyAt(subPaths.length - 1, ps => [...ps, [x, y] as const]),
+          O.getOrElse((): ReadonlyArray<SubPath> => [[[x, y]]])
+        )
+        break
+      case 'fill':
+      case 'stroke':
+      case 'clip':
+        result.push({ operation: e.name, subPaths, properties })
+        break
+    }
+  })
+  return result
+}
@@ -3,7 +3,10 @@ import { Foldable, Foldable1, Foldable2, Foldable3 } from 'fp-ts/lib/Foldable'
 import * as RA from 'fp-ts/lib/ReadonlyArray'
 import * as M from 'fp-ts/lib/Monoid'
 import { MonoidAny } from 'fp-ts/lib/boolean'
-import { Vec } from './Vec'
+import * as O from 'fp-ts/lib/Option'
+import { pipe } from 'fp-ts/lib/function'
+import { Path3D, bezierCurveTo, closePath, lineTo, moveTo } from './Path3D'
+import { Vec, Vec3, add, cross, normalize, scale } from './Vec'
 
 // -------------------------------------------------------------------------------------
 // model
@@ -21,7 +24,7 @@ export interface Radians {
 
 export type Angle = Degrees | Radians
 
-type Point = Vec
+type Point = Vec3
 
 export interface Composite {
   readonly _tag: 'Composite'
@@ -31,10 +34,24 @@ export interface Composite {
 export interface Path {
   readonly _tag: 'Path'
   readonly closed: boolean
-  readonly points: ReadonlyArray<Vec>
+  readonly points: ReadonlyArray<Point>
 }
 
-export type Shape = Composite | Path
+// closed polygonal faces given as indices into a shared array of vertices
+export interface Mesh {
+  readonly _tag: 'Mesh'
+  readonly vertices: ReadonlyArray<Point>
+  readonly faces: ReadonlyArray<ReadonlyArray<number>>
+}
+
+// subpaths of straight lines and Bézier curves built with `Path3D`, the curves are flattened
+// once they are projected
+export interface Spline {
+  readonly _tag: 'Spline'
+  readonly path: Path3D
+}
+
+export type Shape = Composite | Path | Mesh | Spline
 
 // -------------------------------------------------------------------------------------
 // constructors
@@ -60,6 +77,18 @@ export const composite = (shapes: ReadonlyArray<Shape>): Composite => ({
   shapes,
 })
 
+export const spline = (path: Path3D): Spline => ({
+  _tag: 'Spline',
+  path,
+})
+
+// the faces with an index that is not one of the vertices are dropped
+export const mesh = (vertices: ReadonlyArray<Point>, faces: ReadonlyArray<ReadonlyArray<number>>): Mesh => ({
+  _tag: 'Mesh',
+  vertices,
+  faces: faces.filter(face => face.every(i => Number.isInteger(i) && i >= 0 && i < vertices.length)),
+})
+
 export function closed<F extends URIS3>(foldable: Foldable3<F>): <E, A>(fa: Kind3<F, E, A, Point>) => Path
 export function closed<F extends URIS2>(foldable: Foldable2<F>): <A>(fa: Kind2<F, A, Point>) => Path
 export function closed<F extends URIS>(foldable: Foldable1<F>): (fa: Kind<F, Point>) => Path
@@ -86,6 +115,81 @@ export function path<F>(F: Foldable<F>): (fa: HKT<F, Point>) => Path {
     }))
 }
 
+// Arcs are made of cubic Bézier curves spanning at most 45 degrees each, they are flattened
+// once projected so that their number of points follows their size on screen.
+
+// the directions of the X and Y axes of the plane with the given normal, the plane with
+// normal +Z keeps the X and Y axes
+const planeAxes = (normal: Vec): readonly [Vec3, Vec3] => {
+  const n = pipe(
+    normalize(normal),
+    O.getOrElse<Vec>(() => [0, 0, 1])
+  )
+  const helper: Vec = Math.abs(n[1]) > 0.99 ? [0, 0, -1] : [0, 1, 0]
+  const u = pipe(
+    normalize(cross(n)(helper)),
+    O.getOrElse<Vec3>(() => [1, 0, 0])
+  )
+  return [u, cross(u)(n)]
+}
+
+const toRadians = (a: Angle): number => (angle(a) * Math.PI) / 180
+
+const isFullTurn = (sweep: number): boolean => Math.abs(sweep) >= 2 * Math.PI - 1e-9
+
+// the elliptical arc turning from the X axis of the plane towards its Y axis as the angle grows,
+// appended to `path` with a line from its current point, or starting a new subpath
+const ellipticalArc =
+  (center: Point, normal: Vec, radiusX: number, radiusY: number, start: number, end: number) =>
+  (path: Path3D): Path3D => {
+    const [u, v] = planeAxes(normal)
+    const sweep = Math.max(-2 * Math.PI, Math.min(2 * Math.PI, end - start))
+    const n = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 4) - 1e-9))
+    const step = sweep / n
+    const k = (4 / 3) * Math.tan(step / 4)
+    const at = (a: number): Point =>
+      add(scale(radiusY * Math.sin(a))(v))(add(scale(radiusX * Math.cos(a))(u))(center))
+    const tangent = (a: number): Vec3 =>
+      add(scale(radiusY * Math.cos(a))(v))(scale(-radiusX * Math.sin(a))(u))
+    // a full turn ends exactly where it starts
+    const point = (i: number): Point => (i === n && isFullTurn(sweep) ? at(start) : at(start + i * step))
+    return RA.makeBy(n, i => i).reduce(
+      (p, i) =>
+        bezierCurveTo(
+          add(scale(k)(tangent(start + i * step)))(point(i)),
+          add(scale(-k)(tangent(start + (i + 1) * step)))(point(i + 1)),
+          point(i + 1)
+        )(p),
+      RA.isNonEmpty(path) ? lineTo(point(0))(path) : moveTo(point(0))(path)
+    )
+  }
+
+export const arc = (center: Point, normal: Vec, radius: number, start: Angle, end: Angle): Spline =>
+  spline(ellipticalArc(center, normal, radius, radius, toRadians(start), toRadians(end))([]))
+
+export const ellipse = (center: Point, normal: Vec, radiusX: number, radiusY: number): Spline =>
+  spline(ellipticalArc(center, normal, radiusX, radiusY, 0, 2 * Math.PI)([]))
+
+export const circle = (center: Point, normal: Vec, radius: number): Spline =>
+  ellipse(center, normal, radius, radius)
+
+// the region between two concentric arcs, a full turn gives a ring whose inner circle winds
+// the other way, leaving a hole when filled
+export const annularSector = (
+  center: Point,
+  normal: Vec,
+  innerRadius: number,
+  outerRadius: number,
+  start: Angle,
+  end: Angle
+): Spline => {
+  const a = toRadians(start)
+  const b = toRadians(end)
+  const outer = ellipticalArc(center, normal, outerRadius, outerRadius, a, b)
+  const inner = ellipticalArc(center, normal, innerRadius, innerRadius, b, a)
+  return spline(isFullTurn(b - a) ? [...outer([]), ...inner([])] : closePath(inner(outer([]))))
+}
+
 // -------------------------------------------------------------------------------------
 // instances
 // -------------------------------------------------------------------------------------
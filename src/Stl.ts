@@ -0,0 +1,201 @@
+import * as E from 'fp-ts/Either'
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import { pipe } from 'fp-ts/function'
+import { Mesh, Shape } from './Shape'
+import { faces, fromFaces } from './Mesh'
+import { toPolyline } from './Path3D'
+import { Vec3, normal, normalize } from './Vec'
+
+// -------------------------------------------------------------------------------------
+// model
+// -------------------------------------------------------------------------------------
+
+export interface ParseError {
+  // 1-based line number, 0 for the binary files which have no lines
+  readonly line: number
+  readonly message: string
+}
+
+export type Triangle = readonly [Vec3, Vec3, Vec3]
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const HEADER_SIZE = 84
+
+const FACET_SIZE = 50
+
+const parseError = (line: number, message: string): ParseError => ({ line, message })
+
+// unit normal following the right-hand rule, the zero vector for degenerate triangles
+export const facetNormal = (triangle: Triangle): Vec3 =>
+  pipe(
+    normalize(normal(triangle)),
+    O.getOrElse<Vec3>(() => [0, 0, 0])
+  )
+
+// curves are flattened to within this distance
+const TOLERANCE = 0.01
+
+// splits the closed paths and the mesh faces of a shape into triangle fans, open paths are
+// skipped
+export const triangles = (shape: Shape): ReadonlyArray<Triangle> => {
+  const fan = (points: ReadonlyArray<Vec3>): ReadonlyArray<Triangle> =>
+    pipe(
+      points.slice(1, -1),
+      RA.mapWithIndex((i, b): Triangle => [points[0], b, points[i + 2]])
+    )
+  switch (shape._tag) {
+    case 'Composite':
+      return pipe(shape.shapes, RA.chain(triangles))
+    case 'Path':
+      return shape.closed ? fan(shape.points) : RA.empty
+    case 'Mesh':
+      return pipe(faces(shape), RA.chain(fan))
+    case 'Spline':
+      return pipe(
+        shape.path,
+        RA.map(toPolyline(TOLERANCE)),
+        RA.filter(isClosed),
+        RA.chain(points => fan(points.slice(0, -1)))
+      )
+  }
+}
+
+const isClosed = (points: ReadonlyArray<Vec3>): boolean => {
+  const start = points[0]
+  const end = points[points.length - 1]
+  return points.length > 3 && start[0] === end[0] && start[1] === end[1] && start[2] === end[2]
+}
+
+const isBinary = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_SIZE &&
+  bytes.length ===
+    HEADER_SIZE +
+      FACET_SIZE * new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true)
+
+const decode = (bytes: Uint8Array): string => {
+  let text = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode.apply(null, Array.prototype.slice.call(bytes, i, i + 0x8000))
+  }
+  return text
+}
+
+const format = (n: number): string => n.toExponential()
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const parseAscii = (text: string): E.Either<ParseError, Mesh> => {
+  const lines = text.split(/\r?\n/)
+  const result: Array<Triangle> = []
+  let loop: Array<Vec3> | undefined
+  let solid = false
+  for (let n = 0; n < lines.length; n++) {
+    const [keyword, ...args] = lines[n].trim().split(/\s+/)
+    const fail = (message: string) => E.left(parseError(n + 1, message))
+    if (keyword === '') {
+      continue
+    }
+    if (!solid) {
+      if (keyword !== 'solid') {
+        return fail('expected "solid"')
+      }
+      solid = true
+      continue
+    }
+    switch (keyword) {
+      case 'facet':
+      case 'endfacet':
+        break
+      case 'outer':
+        loop = []
+        break
+      case 'vertex': {
+        const xyz = args.map(Number)
+        if (loop === undefined) {
+          return fail('vertex outside of a loop')
+        }
+        if (xyz.length !== 3 || xyz.some(isNaN)) {
+          return fail(`invalid vertex "${args.join(' ')}"`)
+        }
+        loop.push([xyz[0], xyz[1], xyz[2]])
+        break
+      }
+      case 'endloop':
+        if (loop === undefined || loop.length !== 3) {
+          return fail('a facet needs exactly 3 vertices')
+        }
+        result.push([loop[0], loop[1], loop[2]])
+        loop = undefined
+        break
+      case 'endsolid':
+        return E.right(fromFaces(result))
+      default:
+        return fail(`unexpected "${keyword}"`)
+    }
+  }
+  return E.left(parseError(lines.length, 'expected "endsolid"'))
+}
+
+export const parseBinary = (bytes: Uint8Array): E.Either<ParseError, Mesh> => {
+  if (!isBinary(bytes)) {
+    return E.left(parseError(0, 'the size does not match the number of facets'))
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const count = view.getUint32(80, true)
+  const vertex = (offset: number): Vec3 => [
+    view.getFloat32(offset, true),
+    view.getFloat32(offset + 4, true),
+    view.getFloat32(offset + 8, true),
+  ]
+  const result: Array<Triangle> = []
+  for (let i = 0; i < count; i++) {
+    // the stored normal is skipped, it is implied by the winding
+    const offset = HEADER_SIZE + i * FACET_SIZE + 12
+    result.push([vertex(offset), vertex(offset + 12), vertex(offset + 24)])
+  }
+  return E.right(fromFaces(result))
+}
+
+// binary files may start with "solid" too, so they are told apart from ASCII by their size
+export const parse = (input: string | Uint8Array): E.Either<ParseError, Mesh> =>
+  typeof input === 'string'
+    ? parseAscii(input)
+    : isBinary(input)
+    ? parseBinary(input)
+    : parseAscii(decode(input))
+
+export const toAscii = (shape: Shape, name = ''): string =>
+  [
+    `solid ${name}`,
+    ...pipe(
+      triangles(shape),
+      RA.chain(t => [
+        `facet normal ${facetNormal(t).map(format).join(' ')}`,
+        'outer loop',
+        ...t.map(v => `vertex ${format(v[0])} ${format(v[1])} ${format(v[2])}`),
+        'endloop',
+        'endfacet',
+      ])
+    ),
+    `endsolid ${name}`,
+    '',
+  ].join('\n')
+
+export const toBinary = (shape: Shape): Uint8Array => {
+  const ts = triangles(shape)
+  const bytes = new Uint8Array(HEADER_SIZE + FACET_SIZE * ts.length)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(80, ts.length, true)
+  ts.forEach((t, i) => {
+    const offset = HEADER_SIZE + i * FACET_SIZE
+    const vectors = [facetNormal(t), ...t]
+    vectors.forEach((v, j) => [0, 1, 2].forEach(k => view.setFloat32(offset + (j * 3 + k) * 4, v[k], true)))
+  })
+  return bytes
+}
@@ -0,0 +1,289 @@
+import * as O from 'fp-ts/Option'
+import * as RA from 'fp-ts/ReadonlyArray'
+import * as S from 'fp-ts/State'
+import { pipe } from 'fp-ts/function'
+import { Camera } from './Camera'
+import { CanvasDimensions, GlobalCompositeOperation } from './Canvas'
+import { toCss } from './Color'
+import {
+  ColorStop,
+  Drawing,
+  Interpreter,
+  LinearGradient,
+  Paint,
+  RadialGradient,
+  TextAlign,
+  TextBaseline,
+  Transform3D,
+  interpret,
+} from './Drawing'
+
+// -------------------------------------------------------------------------------------
+// utils
+// -------------------------------------------------------------------------------------
+
+const format = (n: number): string => String(Math.round(n * 100.0) / 100)
+
+const escape = (s: string): string =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const attributes = (as: ReadonlyArray<readonly [string, O.Option<string>]>): string =>
+  pipe(
+    as,
+    RA.filterMap(([name, value]) =>
+      pipe(
+        value,
+        O.map(v => ` ${name}="${escape(v)}"`)
+      )
+    ),
+    as => as.join('')
+  )
+
+const pathData = (coords: ReadonlyArray<Transform3D>): string =>
+  coords
+    .map(subPath => subPath.map((p, i) => `${i === 0 ? 'M' : 'L'}${format(p[0])} ${format(p[1])}`).join(''))
+    .join('')
+
+const textAnchor = (textAlign: TextAlign): string => {
+  switch (textAlign) {
+    case 'left':
+    case 'start':
+      return 'start'
+    case 'center':
+      return 'middle'
+    case 'right':
+    case 'end':
+      return 'end'
+  }
+}
+
+const dominantBaseline = (textBaseline: TextBaseline): string => {
+  switch (textBaseline) {
+    case 'top':
+      return 'text-before-edge'
+    case 'bottom':
+      return 'text-after-edge'
+    default:
+      return textBaseline
+  }
+}
+
+const stops = (ss: ReadonlyArray<ColorStop>): string =>
+  ss.map(s => `<stop offset="${format(s.offset)}" stop-color="${toCss(s.color)}"/>`).join('')
+
+// the start circle of a radial gradient is its focal circle
+const gradient = (id: string, paint: LinearGradient | RadialGradient): string => {
+  switch (paint._tag) {
+    case 'LinearGradient':
+      return (
+        `<linearGradient id="${id}" gradientUnits="userSpaceOnUse"` +
+        ` x1="${format(paint.start[0])}" y1="${format(paint.start[1])}"` +
+        ` x2="${format(paint.end[0])}" y2="${format(paint.end[1])}">` +
+        `${stops(paint.stops)}</linearGradient>`
+      )
+    case 'RadialGradient':
+      return (
+        `<radialGradient id="${id}" gradientUnits="userSpaceOnUse"` +
+        ` fx="${format(paint.start[0])}" fy="${format(paint.start[1])}" fr="${format(paint.startRadius)}"` +
+        ` cx="${format(paint.end[0])}" cy="${format(paint.end[1])}" r="${format(paint.endRadius)}">` +
+        `${stops(paint.stops)}</radialGradient>`
+      )
+  }
+}
+
+const isGradient = (paint: Paint): paint is LinearGradient | RadialGradient => paint._tag !== 'Pattern'
+
+// a gradient is defined right before the element it paints, which refers to it by its id, an
+// image pattern cannot be serialized so its element keeps its color
+const withPaint = (
+  paint: O.Option<Paint>,
+  element: (reference: O.Option<string>) => string
+): S.State<number, string> =>
+  pipe(
+    paint,
+    O.filter(isGradient),
+    O.fold(
+      () => S.of(element(O.none)),
+      p =>
+        pipe(
+          S.get<number>(),
+          S.chain(id =>
+            pipe(
+              S.put(id + 1),
+              S.map(() => gradient(`paint${id}`, p) + element(O.some(`url(#paint${id})`)))
+            )
+          )
+        )
+    )
+  )
+
+// the composite operations that are blend modes, the others are left out
+const mixBlendMode = (operation: GlobalCompositeOperation): O.Option<string> => {
+  switch (operation) {
+    case 'color':
+    case 'color-burn':
+    case 'color-dodge':
+    case 'darken':
+    case 'difference':
+    case 'exclusion':
+    case 'hard-light':
+    case 'hue':
+    case 'lighten':
+    case 'luminosity':
+    case 'multiply':
+    case 'overlay':
+    case 'saturation':
+    case 'screen':
+    case 'soft-light':
+      return O.some(operation)
+    default:
+      return O.none
+  }
+}
+
+// the state counts the clipping paths, the gradients and the shadows to give each of them a
+// unique id
+const svgInterpreter: Interpreter<S.State<number, string>> = {
+  many: as =>
+    pipe(
+      RA.sequence(S.Applicative)(as),
+      S.map(children => `<g>${children.join('')}</g>`)
+    ),
+  clipped: (coords, a) =>
+    pipe(
+      S.get<number>(),
+      S.chain(id =>
+        pipe(
+          S.put(id + 1),
+          S.chain(() => a),
+          S.map(
+            child =>
+              `<clipPath id="clip${id}"><path d="${pathData(coords)}"/></clipPath>` +
+              `<g clip-path="url(#clip${id})">${child}</g>`
+          )
+        )
+      )
+    ),
+  // the standard deviation of the blur is half the canvas shadow blur
+  withShadow: (shadow, a) =>
+    pipe(
+      S.get<number>(),
+      S.chain(id =>
+        pipe(
+          S.put(id + 1),
+          S.chain(() => a),
+          S.map(
+            child =>
+              `<filter id="shadow${id}"><feDropShadow dx="${format(shadow.offsetX)}" dy="${format(
+                shadow.offsetY
+              )}" stdDeviation="${format(shadow.blur / 2)}" flood-color="${toCss(shadow.color)}"/></filter>` +
+              `<g filter="url(#shadow${id})">${child}</g>`
+          )
+        )
+      )
+    ),
+  withAlpha: (alpha, a) =>
+    pipe(
+      a,
+      S.map(child => `<g opacity="${format(alpha)}">${child}</g>`)
+    ),
+  withCompositeOperation: (operation, a) =>
+    pipe(
+      a,
+      S.map(
+        child =>
+          `<g${attributes([
+            [
+              'style',
+              pipe(
+                mixBlendMode(operation),
+                O.map(mode => `mix-blend-mode:${mode}`)
+              ),
+            ],
+          ])}>${child}</g>`
+      )
+    ),
+  fill: (coords, style) =>
+    withPaint(
+      style.paint,
+      reference =>
+        `<path d="${pathData(coords)}"` +
+        attributes([
+          [
+            'fill',
+            pipe(
+              reference,
+              O.alt(() => pipe(style.color, O.map(toCss)))
+            ),
+          ],
+        ]) +
+        '/>'
+    ),
+  // the attributes left out default to the same values as the canvas properties
+  outline: (coords, style) =>
+    withPaint(
+      style.paint,
+      reference =>
+        `<path d="${pathData(coords)}"` +
+        attributes([
+          ['fill', O.some('none')],
+          [
+            'stroke',
+            pipe(
+              reference,
+              O.alt(() => pipe(style.color, O.map(toCss))),
+              O.alt(() => O.some('black'))
+            ),
+          ],
+          ['stroke-width', pipe(style.lineWidth, O.map(format))],
+          ['stroke-linecap', style.lineCap],
+          ['stroke-linejoin', style.lineJoin],
+          ['stroke-miterlimit', pipe(style.miterLimit, O.map(format))],
+          [
+            'stroke-dasharray',
+            pipe(
+              style.lineDash,
+              O.filter(RA.isNonEmpty),
+              O.map(ds => ds.map(format).join(' '))
+            ),
+          ],
+          ['stroke-dashoffset', pipe(style.lineDashOffset, O.map(format))],
+        ]) +
+        '/>'
+    ),
+  // like on the canvas a text is filled unless it only has an outline color
+  text: (position, text, font, style) =>
+    S.of(
+      `<text x="${format(position[0])}" y="${format(position[1])}"` +
+        attributes([
+          ['font-family', O.some(font.fontFamily)],
+          ['font-size', O.some(format(font.size))],
+          ['text-anchor', pipe(style.textAlign, O.map(textAnchor))],
+          ['dominant-baseline', pipe(style.textBaseline, O.map(dominantBaseline))],
+          [
+            'fill',
+            pipe(
+              style.fillColor,
+              O.map(toCss),
+              O.alt(() => (O.isSome(style.outlineColor) ? O.some('none') : O.none))
+            ),
+          ],
+          ['stroke', pipe(style.outlineColor, O.map(toCss))],
+        ]) +
+        `>${escape(text)}</text>`
+    ),
+}
+
+// -------------------------------------------------------------------------------------
+// destructors
+// -------------------------------------------------------------------------------------
+
+export const render = (drawing: Drawing, dimensions: CanvasDimensions, camera?: Camera): string => {
+  const width = format(dimensions.width)
+  const height = format(dimensions.height)
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    S.evaluate(0)(interpret(svgInterpreter)(drawing, dimensions, camera)) +
+    '</svg>'
+  )
+}
@@ -1,13 +1,40 @@
 import * as RNEA from 'fp-ts/ReadonlyNonEmptyArray'
+import * as O from 'fp-ts/Option'
+import { Eq } from 'fp-ts/Eq'
+import { Monoid } from 'fp-ts/Monoid'
+import { Show } from 'fp-ts/Show'
 import { pipe } from 'fp-ts/function'
-import { Field as numberField } from 'fp-ts/number'
+import { Field as numberField, Eq as numberEq, Show as numberShow } from 'fp-ts/number'
 
 // -------------------------------------------------------------------------------------
 // model
 // -------------------------------------------------------------------------------------
 
+// of any dimension, the fixed size vectors below are checked by the compiler
 export type Vec = RNEA.ReadonlyNonEmptyArray<number>
 
+export type Vec2 = readonly [number, number]
+
+export type Vec3 = readonly [number, number, number]
+
+export type Vec4 = readonly [number, number, number, number]
+
+// -------------------------------------------------------------------------------------
+// constructors
+// -------------------------------------------------------------------------------------
+
+// `None` unless there are exactly two components
+export const vec2 = (as: ReadonlyArray<number>): O.Option<Vec2> =>
+  as.length === 2 ? O.some([as[0], as[1]]) : O.none
+
+// `None` unless there are exactly three components
+export const vec3 = (as: ReadonlyArray<number>): O.Option<Vec3> =>
+  as.length === 3 ? O.some([as[0], as[1], as[2]]) : O.none
+
+// `None` unless there are exactly four components
+export const vec4 = (as: ReadonlyArray<number>): O.Option<Vec4> =>
+  as.length === 4 ? O.some([as[0], as[1], as[2], as[3]]) : O.none
+
 // -------------------------------------------------------------------------------------
 // combinators
 // -------------------------------------------------------------------------------------
@@ -17,8 +44,98 @@ export const dot =
   fa =>
     pipe(RNEA.zipWith(fa, fb, numberField.mul), RNEA.reduce(0, numberField.add))
 
+// the element-wise combinators take two vectors of the same dimension, which the compiler
+// checks for the fixed size vectors
+const zipWith =
+  (f: (a: number, b: number) => number) =>
+  <V extends Vec>(fb: V) =>
+  (fa: Readonly<V>): V =>
+    fa.map((a, i) => f(a, fb[i])) as unknown as V
+
+export const add: <V extends Vec>(fb: V) => (fa: Readonly<V>) => V = zipWith(numberField.add)
+
+export const sub: <V extends Vec>(fb: V) => (fa: Readonly<V>) => V = zipWith(numberField.sub)
+
+export const cross =
+  (fb: Vec): ((fa: Vec) => Vec3) =>
+  fa =>
+    [fa[1] * fb[2] - fa[2] * fb[1], fa[2] * fb[0] - fa[0] * fb[2], fa[0] * fb[1] - fa[1] * fb[0]]
+
+export const scale =
+  (n: number): (<V extends Vec>(fa: V) => V) =>
+  fa =>
+    fa.map(a => a * n) as unknown as typeof fa
+
+export const negate = <V extends Vec>(fa: V): V => scale(-1)(fa)
+
+export const length = (fa: Vec): number => Math.sqrt(dot(fa)(fa))
+
+export const distance =
+  (fb: Vec): ((fa: Vec) => number) =>
+  fa =>
+    length(sub(fb)(fa))
+
+// `None` for the zero vector, which has no direction
+export const normalize = <V extends Vec>(fa: V): O.Option<V> => {
+  const l = length(fa)
+  return l === 0 ? O.none : O.some(scale(1 / l)(fa))
+}
+
+// `fa` at `t = 0` and `fb` at `t = 1`
+export const lerp = <V extends Vec>(fb: V, t: number): ((fa: Readonly<V>) => V) =>
+  zipWith((a, b) => a + (b - a) * t)(fb)
+
+// component-wise
+export const min: <V extends Vec>(fb: V) => (fa: Readonly<V>) => V = zipWith(Math.min)
+
+// component-wise
+export const max: <V extends Vec>(fb: V) => (fa: Readonly<V>) => V = zipWith(Math.max)
+
+// the homogeneous coordinates of the point `[x, y, z]`
+export const toHomogeneous = (fa: Vec): Vec4 => [fa[0], fa[1], fa[2], 1]
+
+// the point `[x, y, z]` of the homogeneous coordinates, `None` at infinity where `w` is zero
+export const fromHomogeneous = (fa: Vec): O.Option<Vec3> =>
+  fa[3] === 0 ? O.none : O.some([fa[0] / fa[3], fa[1] / fa[3], fa[2] / fa[3]])
+
+// -------------------------------------------------------------------------------------
+// instances
+// -------------------------------------------------------------------------------------
+
+// vectors of different dimensions are different
+export const eqVec: Eq<Vec> = RNEA.getEq(numberEq)
+
+export const showVec: Show<Vec> = RNEA.getShow(numberShow)
+
+// the sum of the vectors of the dimension of `empty`
+const getMonoid = <V extends Vec>(empty: V): Monoid<V> => ({
+  concat: (x, y) => add(y)(x),
+  empty,
+})
+
+export const monoidVec2: Monoid<Vec2> = getMonoid<Vec2>([0, 0])
+
+export const monoidVec3: Monoid<Vec3> = getMonoid<Vec3>([0, 0, 0])
+
+export const monoidVec4: Monoid<Vec4> = getMonoid<Vec4>([0, 0, 0, 0])
+
 // -------------------------------------------------------------------------------------
 // utils
 // -------------------------------------------------------------------------------------
 
 export const at = (i: number) => (v: Vec) => v[i]
+
+// Newell's method, the result points towards the side from which the points wind
+// counter-clockwise and its length is twice the area of the polygon
+export const normal = (points: ReadonlyArray<Vec>): Vec3 =>
+  points.reduce<Vec3>(
+    (n, a, i) => {
+      const b = points[(i + 1) % points.length]
+      return [
+        n[0] + (a[1] - b[1]) * (a[2] + b[2]),
+        n[1] + (a[2] - b[2]) * (a[0] + b[0]),
+        n[2] + (a[0] - b[0]) * (a[1] + b[1]),
+      ]
+    },
+    [0, 0, 0]
+  )
@@ -1,9 +1,43 @@
+import * as camera from './Camera'
 import * as canvas from './Canvas'
 import * as color from './Color'
+import * as depth from './Depth'
+import * as displayList from './DisplayList'
 import * as drawing from './Drawing'
+import * as frustum from './Frustum'
+import * as light from './Light'
 import * as mat from './Mat'
+import * as mesh from './Mesh'
+import * as obj from './Obj'
+import * as recorder from './Recorder'
+import * as packed from './Packed'
 import * as path3d from './Path3D'
+import * as primitives from './Primitives'
+import * as quat from './Quat'
 import * as shape from './Shape'
+import * as stl from './Stl'
+import * as svg from './Svg'
 import * as vec from './Vec'
 
-export { canvas, color, drawing, mat, shape, path3d, vec }
+export {
+  camera,
+  canvas,
+  color,
+  depth,
+  displayList,
+  drawing,
+  frustum,
+  light,
+  mat,
+  mesh,
+  obj,
+  packed,
+  shape,
+  path3d,
+  primitives,
+  quat,
+  recorder,
+  stl,
+  svg,
+  vec,
+}